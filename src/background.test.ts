@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DailyAggregate, RuntimeMessage, TrackerEvent } from './types';
+import { DEFAULT_COUNTING_RULES } from './counting';
+import { replayEvents } from './recompute';
+import { storage } from './storage';
+
+// Just enough of the extension APIs for the engine to start and take messages
+type MessageListener = (message: RuntimeMessage, sender: chrome.runtime.MessageSender, sendResponse: (response?: unknown) => void) => void;
+const messageListeners: MessageListener[] = [];
+const sessionStorage: Record<string, unknown> = {};
+const noListeners = () => ({ addListener: () => {} });
+
+globalThis.chrome = {
+  runtime: { onMessage: { addListener: (listener: MessageListener) => messageListeners.push(listener) }, getURL: (path: string) => path },
+  permissions: { onAdded: noListeners(), onRemoved: noListeners(), contains: async () => false },
+  idle: { setDetectionInterval: () => {}, onStateChanged: noListeners(), queryState: (_seconds: number, callback: (state: string) => void) => callback('active') },
+  alarms: { onAlarm: noListeners(), create: () => {}, get: async () => undefined },
+  tabs: { onRemoved: noListeners(), query: async () => [{ id: 1 }, { id: 2 }], sendMessage: async () => {} },
+  storage: {
+    session: {
+      get: async () => ({ ...sessionStorage }),
+      set: async (items: Record<string, unknown>) => Object.assign(sessionStorage, items)
+    }
+  },
+  scripting: { getRegisteredContentScripts: async () => [], unregisterContentScripts: async () => {}, registerContentScripts: async () => {} },
+  notifications: { create: () => {} }
+} as unknown as typeof chrome;
+
+function send(message: RuntimeMessage, tabId: number): Promise<unknown> {
+  return new Promise(resolve => messageListeners[0](message, { tab: { id: tabId } as chrome.tabs.Tab }, resolve));
+}
+
+// Noon local time on 2024-03-04
+const BASE = new Date(2024, 2, 4, 12).getTime();
+const MIDNIGHT = new Date(2024, 2, 5).getTime();
+
+function createEvent(type: TrackerEvent['type'], timestamp: number, videoId: string, overrides: Partial<TrackerEvent> = {}): TrackerEvent {
+  return {
+    timestamp,
+    platform: 'youtube',
+    category: 'regular',
+    type,
+    duration: 300000,
+    meta: { videoId, channelId: '@channel', channelName: 'Channel' },
+    ...overrides
+  };
+}
+
+function playing(videoId: string, from: number, to: number, position: number, overrides: Partial<TrackerEvent> = {}): TrackerEvent[] {
+  const events: TrackerEvent[] = [];
+  for (let timestamp = from; timestamp <= to; timestamp += 1000) {
+    events.push(createEvent('time_update', timestamp, videoId, { currentTime: position + timestamp - from, ...overrides }));
+  }
+  return events;
+}
+
+const sortByKey = (aggregates: DailyAggregate[]) => [...aggregates].sort((a, b) => a.key.localeCompare(b.key));
+
+describe('BackgroundEngine and replayEvents', () => {
+  beforeAll(async () => {
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    await import('./background');
+  });
+
+  it('write the same aggregates for one recorded event stream', async () => {
+    const recorded: Array<[number, TrackerEvent]> = [
+      // Tab 1 watches past the counting threshold with an ad break, pauses long
+      // enough to go stale, resumes and plays to the end
+      [1, createEvent('start', BASE, 'video-1', { currentTime: 0 })],
+      ...playing('video-1', BASE + 1000, BASE + 4000, 1000).map(event => [1, event] as [number, TrackerEvent]),
+      ...playing('video-1', BASE + 5000, BASE + 7000, 0, { isAd: true, duration: 15000 }).map(event => [1, event] as [number, TrackerEvent]),
+      ...playing('video-1', BASE + 8000, BASE + 14000, 4500).map(event => [1, event] as [number, TrackerEvent]),
+      [1, createEvent('pause', BASE + 15000, 'video-1', { currentTime: 11500 })],
+      [1, createEvent('start', BASE + 135000, 'video-1', { currentTime: 11500 })],
+      ...playing('video-1', BASE + 136000, BASE + 140000, 12500, { pageVisible: false }).map(event => [1, event] as [number, TrackerEvent]),
+      [1, createEvent('end', BASE + 141000, 'video-1', { currentTime: 17500 })],
+      // Tab 1 closes a second video before it earned a view
+      [1, createEvent('start', BASE + 150000, 'video-2', { currentTime: 0 })],
+      ...playing('video-2', BASE + 151000, BASE + 153000, 1000).map(event => [1, event] as [number, TrackerEvent]),
+      [1, createEvent('close', BASE + 154000, 'video-2', { currentTime: 4000 })],
+      // Tab 2 watches a Short across midnight
+      [2, createEvent('start', MIDNIGHT - 6000, 'short-1', { category: 'shorts', duration: 30000, currentTime: 0 })],
+      ...playing('short-1', MIDNIGHT - 5000, MIDNIGHT + 8000, 1000, { category: 'shorts', duration: 30000 })
+        .map(event => [2, event] as [number, TrackerEvent]),
+      // Tab 3 pauses a video just before midnight and its end only arrives well
+      // after, so the view belongs to the day it was last watched
+      [3, createEvent('start', MIDNIGHT - 4000, 'video-3', { currentTime: 0 })],
+      ...playing('video-3', MIDNIGHT - 3000, MIDNIGHT - 2000, 1000).map(event => [3, event] as [number, TrackerEvent]),
+      [3, createEvent('pause', MIDNIGHT - 1000, 'video-3', { currentTime: 3000 })],
+      [3, createEvent('end', MIDNIGHT + 120000, 'video-3', { currentTime: 3000 })]
+    ];
+    for (const [tabId, event] of recorded) {
+      await send({ type: 'TRACK_EVENT', payload: event }, tabId);
+    }
+
+    const live = await storage.getDailyAggregates({ start: '2024-03-04', end: '2024-03-05' });
+    const replayed = replayEvents(await storage.getEvents(BASE - 1, MIDNIGHT + 600000), DEFAULT_COUNTING_RULES);
+
+    expect(live.map(agg => [agg.key, agg.count])).toEqual([
+      ['2024-03-04::youtube::regular', 2],
+      ['2024-03-04::youtube::shorts', 0],
+      ['2024-03-05::youtube::shorts', 1]
+    ]);
+    expect(sortByKey(replayed)).toEqual(sortByKey(live));
+  });
+});
\ No newline at end of file
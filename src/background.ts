@@ -1,18 +1,152 @@
-import { TrackerEvent, SessionState, TabStats, GlobalSummary, RuntimeMessage } from './types';
+import {
+  TrackerEvent,
+  SessionState,
+  TabStats,
+  GlobalSummary,
+  RuntimeMessage,
+  EnabledPlatforms,
+  GenericSiteConfig,
+  ChannelSummary,
+  DateRange,
+  CountingRules,
+  DailyAggregate,
+  ViewingSessionSummary,
+  HourlyHeatmap,
+  HourlyHeatmapQuery,
+  Budget,
+  BudgetStatus,
+  BudgetOverrideEvent,
+  FocusSchedule,
+  ScheduleCompliance,
+  Goal,
+  GoalStreak,
+  BreakReminderSettings,
+  BreakReminderRecord,
+  BreakReminderPrompt,
+  BreakReminderStats,
+  ContinuousWatch,
+  RecomputeResult
+} from './types';
 import { storage } from './storage';
-import { getDateString, isValidTimeDelta } from './utils';
+import { DEFAULT_COUNTING_RULES } from './counting';
+import { STALE_SESSION_MS, SessionEffect, applySessionEvent, settleSession } from './sessions';
+import { BUDGET_SNOOZE_MINUTES, evaluateBudgets, getBudgetLabel } from './budgets';
+import {
+  SCHEDULE_BUDGET_PREFIX,
+  evaluateSchedules,
+  isScheduleActive,
+  isScheduleDayCompliant,
+  scheduleMatches
+} from './schedules';
+import { computeStreak, evaluateGoal } from './goals';
+import { answerBreakReminder, trackContinuousWatch } from './breakReminders';
+import { checkAllMigrations } from './migrations';
+import { carryImportedCounts, diffAggregates, replayEvents } from './recompute';
+import {
+  generateEventId,
+  getDateString,
+  getDaysAgo,
+  getDayStartTime,
+  getYesterday,
+  isShortFormCategory,
+  parseDateString,
+  shiftDateString,
+  getDayStartHour,
+  setDayStartHour
+} from './utils';
+
+function createEmptyStats(): TabStats {
+  return {
+    shortsCount: 0,
+    shortsMs: 0,
+    regularCount: 0,
+    regularMs: 0,
+    shortsAttendedMs: 0,
+    regularAttendedMs: 0,
+    shortsContentMs: 0,
+    regularContentMs: 0
+  };
+}
+
+function addAggregateToStats(stats: TabStats, aggregate: DailyAggregate): void {
+  if (isShortFormCategory(aggregate.category)) {
+    stats.shortsCount += aggregate.count;
+    stats.shortsMs += aggregate.watchMs;
+    stats.shortsAttendedMs += aggregate.attendedMs || 0;
+    stats.shortsContentMs += aggregate.contentMs || 0;
+  } else if (aggregate.category === 'regular') {
+    stats.regularCount += aggregate.count;
+    stats.regularMs += aggregate.watchMs;
+    stats.regularAttendedMs += aggregate.attendedMs || 0;
+    stats.regularContentMs += aggregate.contentMs || 0;
+  }
+}
+
+const SESSIONS_STORAGE_KEY = 'sessions';
+const CONTINUOUS_WATCH_STORAGE_KEY = 'continuousWatch';
+const NOTIFIED_BUDGETS_STORAGE_KEY = 'notifiedBudgets';
+const BUDGET_OVERRIDES_STORAGE_KEY = 'budgetOverrides';
+const NOTIFICATION_ICON_PATH = 'icons/icon128.png';
+const IDLE_DETECTION_SECONDS = 120;
+const DEFAULT_SESSION_GAP_MINUTES = 10;
+const FOCUS_SCHEDULES_ALARM = 'focus-schedules';
+const RETENTION_ALARM = 'retention-cleanup';
+const RETENTION_INTERVAL_MINUTES = 6 * 60;
+// How far back a new or re-enabled goal's history is filled in
+const GOAL_BACKFILL_DAYS = 30;
+const DEFAULT_BREAK_REMINDER: BreakReminderSettings = {
+  enabled: false,
+  thresholdMinutes: 45,
+  breakMinutes: 5,
+  pauseVideo: false
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every tab's budgets and schedules are re-evaluated this often; playback refreshes its own tab in between
+const STATUS_REFRESH_MS = 15000;
+// Events replayed from before a recompute range, so sessions already running at its start carry over
+const REPLAY_LEAD_MS = 60 * 60 * 1000;
 
 class BackgroundEngine {
   private sessions: Map<string, SessionState> = new Map();
   private tabStats: Map<number, TabStats> = new Map();
+  private countingRules: CountingRules = DEFAULT_COUNTING_RULES;
+  private ready: Promise<void>;
+  // Why startup failed (a migration error, say); every handler then answers with it instead of running
+  private startupError: string | null = null;
+  private userIdle = false;
+  private sessionGapMinutes = DEFAULT_SESSION_GAP_MINUTES;
+  private budgets: Budget[] = [];
+  // `${date}::${budgetId}` for budgets already announced today
+  private notifiedBudgets: Set<string> = new Set();
+  // Budget id -> time its snooze or override runs out
+  private budgetOverrides: Record<string, number> = {};
+  private schedules: FocusSchedule[] = [];
+  // Ids of the schedules active at the last alarm, to spot windows opening or closing
+  private activeScheduleIds = '';
+  // Schedule restrictions as of the last refresh, so per-event updates don't read the compliance store
+  private scheduleStatuses: BudgetStatus[] = [];
+  private goals: Goal[] = [];
+  private breakReminder: BreakReminderSettings = DEFAULT_BREAK_REMINDER;
+  private continuousWatch: ContinuousWatch | null = null;
 
   constructor() {
-    this.init();
+    this.ready = this.init().catch(error => {
+      this.startupError = error instanceof Error ? error.message : String(error);
+      console.error('Background failed to start:', error);
+    });
+  }
+
+  // Waits for startup and tells whether it succeeded
+  private async whenReady(): Promise<boolean> {
+    await this.ready;
+    return this.startupError === null;
   }
 
   private async init(): Promise<void> {
-    // Initialize storage
-    await storage.init();
+    // Listeners are registered before any await: Chrome only delivers the event
+    // that woke a terminated service worker to listeners added synchronously.
+    // Handlers wait for `ready` so they never see unrestored sessions, and skip
+    // their work if startup failed.
 
     // Set up message listeners
     chrome.runtime.onMessage.addListener((message: RuntimeMessage, sender, sendResponse) => {
@@ -20,15 +154,123 @@ class BackgroundEngine {
       return true; // Keep message channel open for async responses
     });
 
+    // Keep generic-site content scripts in line with the granted host permissions
+    chrome.permissions.onAdded.addListener(async () => {
+      if (await this.whenReady()) await this.syncGenericSiteScripts();
+    });
+    chrome.permissions.onRemoved.addListener(async () => {
+      if (await this.whenReady()) await this.syncGenericSiteScripts();
+    });
+
+    // Idle (no input for a while) or locked users aren't watching, even with autoplay running
+    chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+    chrome.idle.onStateChanged.addListener((state) => {
+      this.userIdle = state !== 'active';
+    });
+
+    // Focus schedules are re-checked every minute, even while no video is playing;
+    // the retention policy is applied a few times a day
+    chrome.alarms.onAlarm.addListener(async (alarm) => {
+      if (!(await this.whenReady())) return;
+
+      if (alarm.name === FOCUS_SCHEDULES_ALARM) {
+        await this.checkSchedules();
+      } else if (alarm.name === RETENTION_ALARM) {
+        await storage.applyRetention();
+      }
+    });
+
     // Clean up sessions when tabs are closed
-    chrome.tabs.onRemoved.addListener((tabId) => {
-      this.cleanupTabSessions(tabId);
+    chrome.tabs.onRemoved.addListener(async (tabId) => {
+      if (await this.whenReady()) await this.cleanupTabSessions(tabId);
     });
 
+    // Initialize storage
+    await storage.init();
+    await this.loadSettings();
+
+    const budgetState = await chrome.storage.session.get([NOTIFIED_BUDGETS_STORAGE_KEY, BUDGET_OVERRIDES_STORAGE_KEY]);
+    this.notifiedBudgets = new Set(budgetState[NOTIFIED_BUDGETS_STORAGE_KEY] || []);
+    this.budgetOverrides = budgetState[BUDGET_OVERRIDES_STORAGE_KEY] || {};
+
+    const idleState = await new Promise<string>(resolve => chrome.idle.queryState(IDLE_DETECTION_SECONDS, resolve));
+    this.userIdle = idleState !== 'active';
+
+    // Bring back sessions from before the worker was last terminated
+    await this.restoreSessions();
+    await this.syncGenericSiteScripts();
+
+    chrome.alarms.create(FOCUS_SCHEDULES_ALARM, { periodInMinutes: 1 });
+    // Re-creating it on every wake-up would keep pushing the first run back
+    if (!(await chrome.alarms.get(RETENTION_ALARM))) {
+      chrome.alarms.create(RETENTION_ALARM, { delayInMinutes: 1, periodInMinutes: RETENTION_INTERVAL_MINUTES });
+    }
+    await this.rebucketLegacyDays();
+    await this.finalizeGoalResults();
+    this.scheduleStatuses = await this.getScheduleStatus();
+
     // Update tab stats periodically
     setInterval(() => {
       this.updateAllTabStats();
-    }, 1000);
+    }, STATUS_REFRESH_MS);
+  }
+
+  private async loadSettings(): Promise<void> {
+    this.countingRules = { ...DEFAULT_COUNTING_RULES, ...(await storage.getSetting('countingRules', {})) };
+    setDayStartHour(await storage.getSetting('dayStartHour', 0));
+    this.sessionGapMinutes = await storage.getSetting('sessionGapMinutes', DEFAULT_SESSION_GAP_MINUTES);
+    this.budgets = await storage.getSetting('budgets', []);
+    this.schedules = await storage.getSetting('focusSchedules', []);
+    this.goals = await storage.getSetting('goals', []);
+    this.breakReminder = { ...DEFAULT_BREAK_REMINDER, ...(await storage.getSetting('breakReminder', {})) };
+  }
+
+  /**
+   * MV3 kills idle service workers, so in-flight sessions are mirrored to
+   * `chrome.storage.session`. On wake-up, stale sessions, or ones whose tab is
+   * gone, are counted if they earned a view. Sessions in open tabs are kept either
+   * way, so a video that resumes later carries on with its `counted` flag instead
+   * of being counted again.
+   */
+  private async restoreSessions(): Promise<void> {
+    try {
+      const stored = await chrome.storage.session.get([SESSIONS_STORAGE_KEY, CONTINUOUS_WATCH_STORAGE_KEY]);
+      const savedSessions: Record<string, SessionState> = stored[SESSIONS_STORAGE_KEY] || {};
+      this.continuousWatch = stored[CONTINUOUS_WATCH_STORAGE_KEY] || null;
+
+      const tabs = await chrome.tabs.query({});
+      const openTabIds = new Set(tabs.map(tab => tab.id));
+      const now = Date.now();
+
+      for (const [sessionKey, session] of Object.entries(savedSessions)) {
+        const tabId = Number(sessionKey.split('::')[0]);
+        const isStale = now - session.lastUpdateTime > STALE_SESSION_MS;
+
+        const tabOpen = openTabIds.has(tabId);
+
+        if (isStale || !tabOpen) {
+          await this.writeSessionEffects(settleSession(session, this.countingRules), tabId);
+        }
+        if (tabOpen) {
+          this.sessions.set(sessionKey, session);
+        }
+      }
+
+      await this.persistSessions();
+    } catch (error) {
+      console.error('Failed to restore sessions:', error);
+    }
+  }
+
+  private async persistSessions(): Promise<void> {
+    try {
+      await chrome.storage.session.set({
+        [SESSIONS_STORAGE_KEY]: Object.fromEntries(this.sessions),
+        [CONTINUOUS_WATCH_STORAGE_KEY]: this.continuousWatch
+      });
+    } catch (error) {
+      console.error('Failed to persist sessions:', error);
+    }
   }
 
   private async handleMessage(
@@ -37,6 +279,11 @@ class BackgroundEngine {
     sendResponse: (response?: any) => void
   ): Promise<void> {
     try {
+      if (!(await this.whenReady())) {
+        sendResponse({ error: `Social Watch Tracker failed to start: ${this.startupError}` });
+        return;
+      }
+
       switch (message.type) {
         case 'TRACK_EVENT':
           await this.handleTrackEvent(message.payload, sender.tab?.id);
@@ -58,6 +305,216 @@ class BackgroundEngine {
           sendResponse(exportData);
           break;
 
+        case 'IMPORT_WATCH_HISTORY':
+          const importResult = await storage.importWatchHistory(message.payload.entries);
+          sendResponse(importResult);
+          break;
+
+        case 'CREATE_BACKUP':
+          const backup = await storage.createBackup();
+          sendResponse(backup);
+          break;
+
+        case 'PREVIEW_RESTORE':
+          const restorePreview = await storage.previewRestore(message.payload.backup, message.payload.mode);
+          sendResponse(restorePreview);
+          break;
+
+        case 'RESTORE_BACKUP':
+          const restoreResult = await storage.restoreBackup(message.payload.backup, message.payload.mode);
+          // Settings may have changed underneath the in-memory copies
+          await this.loadSettings();
+          await this.syncGenericSiteScripts();
+          await this.checkSchedules();
+          await this.updateAllTabStats();
+          sendResponse(restoreResult);
+          break;
+
+        case 'GET_RETENTION':
+          sendResponse(storage.getRetention());
+          break;
+
+        case 'SET_RETENTION':
+          await storage.setRetention(message.payload);
+          const retentionRun = await storage.applyRetention();
+          sendResponse(retentionRun);
+          break;
+
+        case 'RUN_CLEANUP':
+          const cleanupRun = await storage.applyRetention();
+          sendResponse(cleanupRun);
+          break;
+
+        case 'GET_STORAGE_USAGE':
+          const storageUsage = await storage.getStorageUsage();
+          sendResponse(storageUsage);
+          break;
+
+        case 'RECOMPUTE_AGGREGATES':
+          const recomputeResult = await this.recomputeAggregates(message.payload.range, !!message.payload.dryRun);
+          sendResponse(recomputeResult);
+          break;
+
+        case 'GET_TOP_CHANNELS':
+          const topChannels = await this.getTopChannels(message.payload.range);
+          sendResponse(topChannels);
+          break;
+
+        case 'GET_VIDEO_HISTORY':
+          const history = await storage.queryVideos(message.payload);
+          sendResponse(history);
+          break;
+
+        case 'GET_COUNTING_RULES':
+          sendResponse(this.countingRules);
+          break;
+
+        case 'SET_COUNTING_RULES':
+          this.countingRules = { ...DEFAULT_COUNTING_RULES, ...message.payload };
+          await storage.setSetting('countingRules', this.countingRules);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_DAY_START_HOUR':
+          sendResponse({
+            dayStartHour: await storage.getSetting('dayStartHour', 0),
+            dateBucketing: await storage.getSetting('dateBucketing', null)
+          });
+          break;
+
+        case 'SET_DAY_START_HOUR':
+          setDayStartHour(message.payload);
+          await storage.setSetting('dayStartHour', getDayStartHour());
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_BUDGETS':
+          sendResponse(this.budgets);
+          break;
+
+        case 'SET_BUDGETS':
+          this.budgets = message.payload;
+          await storage.setSetting('budgets', this.budgets);
+          await this.updateAllTabStats();
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_BUDGET_STATUS':
+          const budgetStatus = this.getTabBudgetStatus(sender.tab?.id, await storage.getTodayAggregates());
+          sendResponse(budgetStatus);
+          break;
+
+        case 'OVERRIDE_BUDGET':
+          const overriddenUntil = await this.overrideBudget(message.payload.budgetId, message.payload.action, message.payload.url);
+          sendResponse({ success: true, overriddenUntil });
+          break;
+
+        case 'GET_BUDGET_OVERRIDES':
+          const budgetOverrides = await storage.getBudgetOverrides(
+            getDayStartTime(message.payload.range.start),
+            getDayStartTime(message.payload.range.end) + DAY_MS
+          );
+          sendResponse(budgetOverrides);
+          break;
+
+        case 'GET_SCHEDULES':
+          sendResponse(this.schedules);
+          break;
+
+        case 'SET_SCHEDULES':
+          this.schedules = message.payload;
+          await storage.setSetting('focusSchedules', this.schedules);
+          await this.checkSchedules();
+          await this.updateAllTabStats();
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_SCHEDULE_COMPLIANCE':
+          const compliance = await this.getScheduleCompliance(message.payload.range);
+          sendResponse(compliance);
+          break;
+
+        case 'GET_GOALS':
+          sendResponse(this.goals);
+          break;
+
+        case 'SET_GOALS':
+          this.goals = (message.payload as Goal[]).map(goal => ({ ...goal, createdAt: goal.createdAt || Date.now() }));
+          await storage.setSetting('goals', this.goals);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_GOAL_STREAKS':
+          const goalStreaks = await this.getGoalStreaks();
+          sendResponse(goalStreaks);
+          break;
+
+        case 'GET_BREAK_REMINDER':
+          sendResponse(this.breakReminder);
+          break;
+
+        case 'SET_BREAK_REMINDER':
+          this.breakReminder = { ...DEFAULT_BREAK_REMINDER, ...message.payload };
+          await storage.setSetting('breakReminder', this.breakReminder);
+          sendResponse({ success: true });
+          break;
+
+        case 'BREAK_REMINDER_RESPONSE':
+          await this.handleBreakReminderResponse(message.payload.reminderId, message.payload.outcome);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_BREAK_REMINDER_STATS':
+          const breakStats = await this.getBreakReminderStats(message.payload.range);
+          sendResponse(breakStats);
+          break;
+
+        case 'CHECK_MIGRATIONS':
+          // Runs against throwaway databases; the real one is never touched
+          const migrationChecks = await checkAllMigrations(message.payload?.seedRecords);
+          sendResponse(migrationChecks);
+          break;
+
+        case 'GET_HOURLY_HEATMAP':
+          const heatmap = await this.getHourlyHeatmap(message.payload);
+          sendResponse(heatmap);
+          break;
+
+        case 'GET_VIEWING_SESSIONS':
+          const viewingSessions = await this.getViewingSessions(message.payload.range);
+          sendResponse(viewingSessions);
+          break;
+
+        case 'GET_SESSION_GAP':
+          sendResponse(this.sessionGapMinutes);
+          break;
+
+        case 'SET_SESSION_GAP':
+          this.sessionGapMinutes = Math.max(1, Number(message.payload) || DEFAULT_SESSION_GAP_MINUTES);
+          await storage.setSetting('sessionGapMinutes', this.sessionGapMinutes);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_ENABLED_PLATFORMS':
+          const enabledPlatforms = await storage.getSetting('enabledPlatforms', {});
+          sendResponse(enabledPlatforms);
+          break;
+
+        case 'SET_PLATFORM_ENABLED':
+          await this.setPlatformEnabled(message.payload.platformId, message.payload.enabled);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_GENERIC_SITES':
+          const genericSites = await storage.getSetting('genericSites', []);
+          sendResponse(genericSites);
+          break;
+
+        case 'SET_GENERIC_SITES':
+          await this.setGenericSites(message.payload);
+          sendResponse({ success: true });
+          break;
+
         default:
           sendResponse({ error: 'Unknown message type' });
       }
@@ -70,132 +527,94 @@ class BackgroundEngine {
   private async handleTrackEvent(event: TrackerEvent, tabId?: number): Promise<void> {
     if (!tabId || !event.meta?.videoId) return;
 
-    const sessionKey = `${tabId}::${event.meta.videoId}`;
-    
-    // Store raw event
-    await storage.addEvent(event);
-
-    switch (event.type) {
-      case 'start':
-      case 'navigation':
-        await this.handleSessionStart(sessionKey, event, tabId);
-        break;
-
-      case 'time_update':
-        await this.handleTimeUpdate(sessionKey, event, tabId);
-        break;
-
-      case 'end':
-        await this.handleSessionEnd(sessionKey, event, tabId);
-        break;
-
-      case 'pause':
-        // Update session but don't end it
-        await this.handleTimeUpdate(sessionKey, event, tabId);
-        break;
-    }
-  }
-
-  private async handleSessionStart(sessionKey: string, event: TrackerEvent, tabId: number): Promise<void> {
-    const session: SessionState = {
-      videoId: event.meta?.videoId || '',
-      platform: event.platform,
-      category: event.category,
-      startTime: event.timestamp,
-      lastUpdateTime: event.timestamp,
-      totalWatchMs: 0,
-      counted: false
-    };
+    // Store raw event, with what a replay needs to rebuild the session
+    const storedEvent: TrackerEvent = { ...event, tabId, userIdle: this.userIdle };
+    await storage.addEvent(storedEvent);
 
-    this.sessions.set(sessionKey, session);
+    const effects = applySessionEvent(this.sessions, `${tabId}::${event.meta.videoId}`, storedEvent, this.countingRules);
+    await this.writeSessionEffects(effects, tabId);
     await this.updateTabStats(tabId);
+
+    await this.persistSessions();
   }
 
-  private async handleTimeUpdate(sessionKey: string, event: TrackerEvent, tabId: number): Promise<void> {
-    const session = this.sessions.get(sessionKey);
-    if (!session) return;
+  /**
+   * Writes what the session reducer reported. The replay keeps only the video
+   * time and counts; the live path also feeds the video history, viewing
+   * sessions, hour-of-day and channel stats, focus schedules and break reminders.
+   */
+  private async writeSessionEffects(effects: SessionEffect[], tabId: number): Promise<void> {
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'open':
+          await storage.updateVideo(effect.event, 0);
+          break;
+
+        case 'ad':
+          await storage.updateAdAggregate(effect.date, effect.platform, effect.adMs, effect.breaks);
+          break;
 
-    const timeDelta = event.timestamp - session.lastUpdateTime;
-    
-    if (isValidTimeDelta(timeDelta)) {
-      session.totalWatchMs += timeDelta;
-      session.lastUpdateTime = event.timestamp;
-
-      // Update daily aggregate
-      const today = getDateString();
-      await storage.updateAggregate(
-        today,
-        session.platform,
-        session.category,
-        timeDelta,
-        0
-      );
-
-      await this.updateTabStats(tabId);
-    }
-  }
-
-  private async handleSessionEnd(sessionKey: string, event: TrackerEvent, tabId: number): Promise<void> {
-    const session = this.sessions.get(sessionKey);
-    if (!session) return;
-
-    // Handle final time update
-    await this.handleTimeUpdate(sessionKey, event, tabId);
-
-    // Increment count if not already counted
-    if (!session.counted) {
-      const today = getDateString();
-      await storage.updateAggregate(
-        today,
-        session.platform,
-        session.category,
-        0,
-        1
-      );
-      session.counted = true;
-    }
-
-    // Clean up session
-    this.sessions.delete(sessionKey);
-    await this.updateTabStats(tabId);
-  }
+        case 'watch': {
+          const { session, event, date, watchMs } = effect;
+          await storage.updateVideo(event, watchMs);
+          await storage.updateViewingSession(
+            event.timestamp,
+            watchMs,
+            session.videoId,
+            session.category,
+            this.sessionGapMinutes * 60000
+          );
+          await storage.updateAggregate(date, session.platform, session.category, {
+            watchMs,
+            attendedMs: effect.attendedMs,
+            contentMs: effect.contentMs
+          });
+          await storage.updateHourlyAggregate(
+            date,
+            new Date(event.timestamp).getHours(),
+            session.platform,
+            session.category,
+            watchMs
+          );
+          await this.recordScheduleUsage(session, watchMs, event.timestamp);
+          await this.trackContinuousWatching(event.timestamp, watchMs, tabId);
 
-  private async updateTabStats(tabId: number): Promise<void> {
-    const todayAggregates = await storage.getTodayAggregates();
+          if (session.channelId) {
+            await storage.updateChannelAggregate(date, session.platform, session.channelId, session.channelName || '', watchMs, 0);
+          }
+          break;
+        }
 
-    const stats: TabStats = {
-      shortsCount: 0,
-      shortsMs: 0,
-      regularCount: 0,
-      regularMs: 0
-    };
+        case 'count': {
+          const { session, date } = effect;
+          await storage.updateAggregate(date, session.platform, session.category, { count: 1 });
 
-    // Aggregate today's stats
-    for (const aggregate of todayAggregates) {
-      if (aggregate.category === 'shorts') {
-        stats.shortsCount += aggregate.count;
-        stats.shortsMs += aggregate.watchMs;
-      } else if (aggregate.category === 'regular') {
-        stats.regularCount += aggregate.count;
-        stats.regularMs += aggregate.watchMs;
+          if (session.channelId) {
+            await storage.updateChannelAggregate(date, session.platform, session.channelId, session.channelName || '', 0, 1);
+          }
+          break;
+        }
       }
     }
+  }
 
-    // Add current session stats
-    for (const [sessionKey, session] of this.sessions.entries()) {
-      if (sessionKey.startsWith(`${tabId}::`)) {
-        if (session.category === 'shorts') {
-          stats.shortsMs += session.totalWatchMs;
-          if (!session.counted) stats.shortsCount += 1;
-        } else if (session.category === 'regular') {
-          stats.regularMs += session.totalWatchMs;
-          if (!session.counted) stats.regularCount += 1;
-        }
-      }
+  private async updateTabStats(tabId: number, todayAggregates?: DailyAggregate[]): Promise<void> {
+    todayAggregates = todayAggregates || await storage.getTodayAggregates();
+
+    const stats = createEmptyStats();
+
+    // Aggregate today's stats
+    for (const aggregate of todayAggregates) {
+      addAggregateToStats(stats, aggregate);
     }
 
+    // Live sessions are already in the aggregates: time is written on every update
+    // and counts as soon as the counting rules are met
     this.tabStats.set(tabId, stats);
 
+    await this.notifyExceededBudgets(evaluateBudgets(this.budgets, todayAggregates, this.budgetOverrides));
+    const budgetStatus = this.getTabBudgetStatus(tabId, todayAggregates);
+
     // Notify content script
     try {
       chrome.tabs.sendMessage(tabId, {
@@ -205,68 +624,222 @@ class BackgroundEngine {
     } catch (error) {
       // Tab might be closed or not ready
     }
+
+    chrome.tabs.sendMessage(tabId, {
+      type: 'BUDGET_STATUS_UPDATE',
+      payload: budgetStatus
+    }).catch(() => {
+      // Tab might be closed or not ready
+    });
   }
 
+  /**
+   * Budgets for the platforms playing in the tab, plus the cross-platform ones.
+   * A tab with nothing tracked yet sees every budget.
+   */
+  private getTabBudgetStatus(tabId: number | undefined, todayAggregates: DailyAggregate[]): BudgetStatus[] {
+    const statuses = [
+      ...evaluateBudgets(this.budgets, todayAggregates, this.budgetOverrides),
+      ...this.scheduleStatuses
+    ];
+
+    const tabPlatforms = new Set<string>();
+    for (const [key, session] of this.sessions.entries()) {
+      if (key.startsWith(`${tabId}::`)) tabPlatforms.add(session.platform);
+    }
+
+    if (tabPlatforms.size === 0) return statuses;
+    return statuses.filter(status => status.platform === 'all' || tabPlatforms.has(status.platform));
+  }
+
+  /**
+   * Lifts a budget's enforcement for a few minutes (snooze) or until the day
+   * ends (override), and logs it so the dashboard can show how often it happens.
+   */
+  private async overrideBudget(budgetId: string, action: BudgetOverrideEvent['action'], url?: string): Promise<number> {
+    const budget = budgetId.startsWith(SCHEDULE_BUDGET_PREFIX)
+      ? this.schedules.find(schedule => `${SCHEDULE_BUDGET_PREFIX}${schedule.id}` === budgetId)
+      : this.budgets.find(b => b.id === budgetId);
+    if (!budget) throw new Error(`Unknown budget: ${budgetId}`);
+
+    const now = Date.now();
+    const overriddenUntil = action === 'snooze'
+      ? now + BUDGET_SNOOZE_MINUTES * 60000
+      : getDayStartTime(getDateString()) + DAY_MS;
+
+    this.budgetOverrides[budgetId] = overriddenUntil;
+    await chrome.storage.session.set({ [BUDGET_OVERRIDES_STORAGE_KEY]: this.budgetOverrides });
+
+    await storage.addBudgetOverride({
+      eventId: generateEventId(),
+      timestamp: now,
+      budgetId,
+      platform: budget.platform,
+      category: budget.category,
+      action,
+      url
+    });
+
+    if (budgetId.startsWith(SCHEDULE_BUDGET_PREFIX)) {
+      await storage.updateScheduleCompliance(getDateString(), budgetId.slice(SCHEDULE_BUDGET_PREFIX.length), 0, 1);
+    }
+
+    await this.updateAllTabStats();
+    return overriddenUntil;
+  }
+
+  private async getScheduleStatus(): Promise<BudgetStatus[]> {
+    if (!this.schedules.some(schedule => isScheduleActive(schedule))) return [];
+
+    const today = getDateString();
+    const records = await storage.getScheduleCompliance({ start: today, end: today });
+    const usage = Object.fromEntries(records.map(record => [record.scheduleId, record.watchMs]));
+
+    return evaluateSchedules(this.schedules, usage, this.budgetOverrides);
+  }
+
+  private async recordScheduleUsage(session: SessionState, watchMsDelta: number, timestamp: number): Promise<void> {
+    const now = new Date(timestamp);
+
+    for (const schedule of this.schedules) {
+      if (isScheduleActive(schedule, now) && scheduleMatches(schedule, session.platform, session.category)) {
+        await storage.updateScheduleCompliance(getDateString(now), schedule.id, watchMsDelta);
+      }
+    }
+  }
+
+  /**
+   * Runs on the focus-schedules alarm. Marks each active window in the
+   * compliance store (so a day with no watching still counts as kept) and
+   * pushes fresh restrictions to the tabs when a window opens or closes.
+   */
+  private async checkSchedules(): Promise<void> {
+    const activeSchedules = this.schedules.filter(schedule => isScheduleActive(schedule));
+    const today = getDateString();
+
+    for (const schedule of activeSchedules) {
+      await storage.updateScheduleCompliance(today, schedule.id, 0);
+    }
+
+    const activeScheduleIds = activeSchedules.map(schedule => schedule.id).join(',');
+    if (activeScheduleIds !== this.activeScheduleIds) {
+      this.activeScheduleIds = activeScheduleIds;
+      await this.updateAllTabStats();
+    }
+  }
+
+  private async getScheduleCompliance(range: DateRange): Promise<ScheduleCompliance[]> {
+    const records = await storage.getScheduleCompliance(range);
+
+    return this.schedules.map(schedule => {
+      const scheduleRecords = records.filter(record => record.scheduleId === schedule.id);
+
+      return {
+        scheduleId: schedule.id,
+        name: schedule.name,
+        daysActive: scheduleRecords.length,
+        daysCompliant: scheduleRecords.filter(record => isScheduleDayCompliant(schedule, record.watchMs, record.overrides)).length,
+        watchMs: scheduleRecords.reduce((sum, record) => sum + record.watchMs, 0),
+        overrides: scheduleRecords.reduce((sum, record) => sum + record.overrides, 0)
+      };
+    });
+  }
+
+  private async notifyExceededBudgets(statuses: BudgetStatus[]): Promise<void> {
+    const today = getDateString();
+    let changed = false;
+
+    for (const status of statuses) {
+      const notificationKey = `${today}::${status.budgetId}`;
+      if (!status.exceeded || this.notifiedBudgets.has(notificationKey)) continue;
+
+      this.notifiedBudgets.add(notificationKey);
+      changed = true;
+
+      chrome.notifications.create(notificationKey, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL(NOTIFICATION_ICON_PATH),
+        title: 'Daily budget reached',
+        message: `You've used your ${status.limitMs / 60000} minute budget for ${getBudgetLabel(status)} today.`
+      });
+    }
+
+    if (changed) {
+      // Keep only today's keys so the set doesn't grow forever
+      this.notifiedBudgets = new Set([...this.notifiedBudgets].filter(key => key.startsWith(`${today}::`)));
+      try {
+        await chrome.storage.session.set({ [NOTIFIED_BUDGETS_STORAGE_KEY]: [...this.notifiedBudgets] });
+      } catch (error) {
+        console.error('Failed to persist budget notifications:', error);
+      }
+    }
+  }
+
+  /**
+   * Re-evaluates the schedules and pushes fresh stats and restrictions to every
+   * tab, reading today's aggregates once for all of them.
+   */
   private async updateAllTabStats(): Promise<void> {
+    this.scheduleStatuses = await this.getScheduleStatus();
+    const todayAggregates = await storage.getTodayAggregates();
+
     const tabs = await chrome.tabs.query({});
     for (const tab of tabs) {
       if (tab.id) {
-        await this.updateTabStats(tab.id);
+        await this.updateTabStats(tab.id, todayAggregates);
       }
     }
   }
 
   private async getTabStats(tabId?: number): Promise<TabStats> {
     if (!tabId) {
-      return { shortsCount: 0, shortsMs: 0, regularCount: 0, regularMs: 0 };
+      return createEmptyStats();
     }
 
     await this.updateTabStats(tabId);
-    return this.tabStats.get(tabId) || { shortsCount: 0, shortsMs: 0, regularCount: 0, regularMs: 0 };
+    return this.tabStats.get(tabId) || createEmptyStats();
   }
 
   private async getGlobalSummary(): Promise<GlobalSummary> {
-    const [todayAggs, yesterdayAggs, last7DaysAggs, last30DaysAggs] = await Promise.all([
+    const [todayAggs, yesterdayAggs, last7DaysAggs, last30DaysAggs, adAggs] = await Promise.all([
       storage.getTodayAggregates(),
       storage.getYesterdayAggregates(),
       storage.getLast7DaysAggregates(),
-      storage.getLast30DaysAggregates()
+      storage.getLast30DaysAggregates(),
+      storage.getAdAggregates({ start: getDaysAgo(30), end: getDateString() })
     ]);
 
-    const aggregateStats = (aggregates: any[]): TabStats => {
-      const stats: TabStats = { shortsCount: 0, shortsMs: 0, regularCount: 0, regularMs: 0 };
+    const aggregateStats = (aggregates: DailyAggregate[]): TabStats => {
+      const stats = createEmptyStats();
       
       for (const agg of aggregates) {
-        if (agg.category === 'shorts') {
-          stats.shortsCount += agg.count;
-          stats.shortsMs += agg.watchMs;
-        } else if (agg.category === 'regular') {
-          stats.regularCount += agg.count;
-          stats.regularMs += agg.watchMs;
-        }
+        addAggregateToStats(stats, agg);
       }
       
       return stats;
     };
 
     // Generate trends data (last 30 days)
-    const trendsMap = new Map<string, { shorts: { count: number; watchMs: number }, regular: { count: number; watchMs: number } }>();
+    type DayTotals = { count: number; watchMs: number; attendedMs: number; contentMs: number };
+    const trendsMap = new Map<string, { shorts: DayTotals, regular: DayTotals }>();
     
     for (const agg of last30DaysAggs) {
       if (!trendsMap.has(agg.date)) {
         trendsMap.set(agg.date, {
-          shorts: { count: 0, watchMs: 0 },
-          regular: { count: 0, watchMs: 0 }
+          shorts: { count: 0, watchMs: 0, attendedMs: 0, contentMs: 0 },
+          regular: { count: 0, watchMs: 0, attendedMs: 0, contentMs: 0 }
         });
       }
       
       const dayData = trendsMap.get(agg.date)!;
-      if (agg.category === 'shorts') {
-        dayData.shorts.count += agg.count;
-        dayData.shorts.watchMs += agg.watchMs;
-      } else if (agg.category === 'regular') {
-        dayData.regular.count += agg.count;
-        dayData.regular.watchMs += agg.watchMs;
+      const totals = isShortFormCategory(agg.category) ? dayData.shorts
+        : agg.category === 'regular' ? dayData.regular
+        : null;
+      if (totals) {
+        totals.count += agg.count;
+        totals.watchMs += agg.watchMs;
+        totals.attendedMs += agg.attendedMs || 0;
+        totals.contentMs += agg.contentMs || 0;
       }
     }
 
@@ -274,21 +847,27 @@ class BackgroundEngine {
       .map(([date, data]) => ({ date, ...data }))
       .sort((a, b) => a.date.localeCompare(b.date));
 
+    // Ad time per day (last 30 days)
+    const adTrendsMap = new Map<string, { adMs: number; adCount: number }>();
+    for (const agg of adAggs) {
+      const dayData = adTrendsMap.get(agg.date) || { adMs: 0, adCount: 0 };
+      dayData.adMs += agg.adMs;
+      dayData.adCount += agg.adCount;
+      adTrendsMap.set(agg.date, dayData);
+    }
+
+    const adTrends = Array.from(adTrendsMap.entries())
+      .map(([date, data]) => ({ date, ...data }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
     // Platform breakdown
     const platformsMap = new Map<string, TabStats>();
     for (const agg of last30DaysAggs) {
       if (!platformsMap.has(agg.platform)) {
-        platformsMap.set(agg.platform, { shortsCount: 0, shortsMs: 0, regularCount: 0, regularMs: 0 });
+        platformsMap.set(agg.platform, createEmptyStats());
       }
       
-      const platformStats = platformsMap.get(agg.platform)!;
-      if (agg.category === 'shorts') {
-        platformStats.shortsCount += agg.count;
-        platformStats.shortsMs += agg.watchMs;
-      } else if (agg.category === 'regular') {
-        platformStats.regularCount += agg.count;
-        platformStats.regularMs += agg.watchMs;
-      }
+      addAggregateToStats(platformsMap.get(agg.platform)!, agg);
     }
 
     return {
@@ -297,10 +876,240 @@ class BackgroundEngine {
       last7Days: aggregateStats(last7DaysAggs),
       last30Days: aggregateStats(last30DaysAggs),
       platforms: Object.fromEntries(platformsMap) as Record<any, TabStats>,
-      trends
+      trends,
+      adTrends
+    };
+  }
+
+  private async getTopChannels(range: DateRange): Promise<ChannelSummary[]> {
+    const [channelAggs, dailyAggs] = await Promise.all([
+      storage.getChannelAggregates(range),
+      storage.getAggregates(range)
+    ]);
+
+    const totalWatchMs = dailyAggs.reduce((sum, agg) => sum + agg.watchMs, 0);
+    const channelsMap = new Map<string, ChannelSummary>();
+
+    for (const agg of channelAggs) {
+      const key = `${agg.platform}::${agg.channelId}`;
+      if (!channelsMap.has(key)) {
+        channelsMap.set(key, {
+          platform: agg.platform,
+          channelId: agg.channelId,
+          channelName: agg.channelName,
+          watchMs: 0,
+          count: 0,
+          share: 0
+        });
+      }
+
+      const channel = channelsMap.get(key)!;
+      channel.watchMs += agg.watchMs;
+      channel.count += agg.count;
+      // Keep the most recent display name
+      if (agg.channelName) channel.channelName = agg.channelName;
+    }
+
+    return Array.from(channelsMap.values())
+      .map(channel => ({ ...channel, share: totalWatchMs > 0 ? channel.watchMs / totalWatchMs : 0 }))
+      .sort((a, b) => b.watchMs - a.watchMs);
+  }
+
+  /**
+   * Extends the current stretch of watching (see trackContinuousWatch) and
+   * gives the tab a break card when a reminder is due.
+   */
+  private async trackContinuousWatching(timestamp: number, watchMsDelta: number, tabId: number): Promise<void> {
+    if (!this.breakReminder.enabled) return;
+
+    const { continuousWatch, dueWatchedMs } = trackContinuousWatch(this.continuousWatch, timestamp, watchMsDelta, this.breakReminder);
+    this.continuousWatch = continuousWatch;
+    if (dueWatchedMs === null) return;
+
+    const record: BreakReminderRecord = {
+      id: generateEventId(),
+      timestamp,
+      watchedMs: dueWatchedMs,
+      outcome: 'pending'
+    };
+    await storage.putBreakReminder(record);
+
+    const prompt: BreakReminderPrompt = {
+      reminderId: record.id,
+      watchedMs: dueWatchedMs,
+      breakMinutes: this.breakReminder.breakMinutes,
+      pauseVideo: this.breakReminder.pauseVideo
+    };
+
+    chrome.tabs.sendMessage(tabId, {
+      type: 'BREAK_REMINDER',
+      payload: prompt
+    }).catch(() => {
+      // Tab might be closed or not ready
+    });
+  }
+
+  private async handleBreakReminderResponse(reminderId: string, outcome: BreakReminderRecord['outcome']): Promise<void> {
+    const answer = answerBreakReminder(await storage.getBreakReminder(reminderId), outcome, this.continuousWatch);
+    if (!answer.record) return;
+
+    await storage.putBreakReminder(answer.record);
+    if (answer.continuousWatch !== this.continuousWatch) {
+      this.continuousWatch = answer.continuousWatch;
+      await this.persistSessions();
+    }
+  }
+
+  private async getBreakReminderStats(range: DateRange): Promise<BreakReminderStats> {
+    const reminders = await storage.getBreakReminders(getDayStartTime(range.start), getDayStartTime(range.end) + DAY_MS);
+
+    return {
+      shown: reminders.length,
+      accepted: reminders.filter(reminder => reminder.outcome === 'accepted').length,
+      ignored: reminders.filter(reminder => reminder.outcome === 'ignored').length
     };
   }
 
+  /**
+   * Records the outcome of every finished day for each enabled goal, starting
+   * after its last stored result (or when it was created). Today stays
+   * provisional until it's over.
+   */
+  private async finalizeGoalResults(): Promise<void> {
+    const yesterday = getYesterday();
+    const earliest = getDaysAgo(GOAL_BACKFILL_DAYS);
+
+    for (const goal of this.goals) {
+      if (!goal.enabled) continue;
+
+      const results = await storage.getGoalResults(goal.id);
+      const lastResult = results[results.length - 1];
+      const createdDate = getDateString(new Date(goal.createdAt));
+
+      let date = lastResult ? shiftDateString(lastResult.date, 1) : createdDate;
+      if (date < earliest) date = earliest;
+
+      for (; date <= yesterday; date = shiftDateString(date, 1)) {
+        const aggregates = await storage.getDailyAggregates({ start: date, end: date });
+        const { value, met } = evaluateGoal(goal, aggregates);
+
+        await storage.addGoalResult({
+          key: `${date}::${goal.id}`,
+          date,
+          goalId: goal.id,
+          goal: { metric: goal.metric, platform: goal.platform, category: goal.category, threshold: goal.threshold },
+          value,
+          met
+        });
+      }
+    }
+  }
+
+  private async getGoalStreaks(): Promise<GoalStreak[]> {
+    await this.finalizeGoalResults();
+
+    const today = getDateString();
+    const todayAggregates = await storage.getTodayAggregates();
+    const streaks: GoalStreak[] = [];
+
+    for (const goal of this.goals) {
+      if (!goal.enabled) continue;
+
+      const results = await storage.getGoalResults(goal.id);
+      const todayResult = evaluateGoal(goal, todayAggregates);
+      streaks.push(computeStreak(goal.id, results, { date: today, ...todayResult }, date => shiftDateString(date, -1)));
+    }
+
+    return streaks;
+  }
+
+  private async getHourlyHeatmap(query: HourlyHeatmapQuery): Promise<HourlyHeatmap> {
+    const aggregates = await storage.getHourlyAggregates(query.range);
+    const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+
+    for (const agg of aggregates) {
+      if (query.platform && agg.platform !== query.platform) continue;
+      if (query.category && agg.category !== query.category) continue;
+
+      // Weekday of the tracked day, so early hours before the day start stay with it
+      cells[parseDateString(agg.date).getDay()][agg.hour] += agg.watchMs;
+    }
+
+    return {
+      cells,
+      maxMs: Math.max(0, ...cells.flat())
+    };
+  }
+
+  private async getViewingSessions(range: DateRange): Promise<ViewingSessionSummary> {
+    const [sessions, weekSessions] = await Promise.all([
+      storage.getViewingSessions(getDayStartTime(range.start), getDayStartTime(range.end) + DAY_MS),
+      storage.getViewingSessions(getDayStartTime(getDaysAgo(6)), Date.now() + DAY_MS)
+    ]);
+
+    const totalMs = sessions.reduce((sum, session) => sum + session.totalMs, 0);
+
+    return {
+      sessions,
+      longestThisWeekMs: weekSessions.reduce((longest, session) => Math.max(longest, session.totalMs), 0),
+      averageMs: sessions.length > 0 ? totalMs / sessions.length : 0
+    };
+  }
+
+  /**
+   * Days recorded before the switch to local day buckets were split at UTC
+   * midnight. The ones the raw events still cover are rebuilt once by replaying
+   * them, and the cutover moves back to the first day that couldn't be, so only
+   * the older days stay flagged.
+   */
+  private async rebucketLegacyDays(): Promise<void> {
+    const dateBucketing = await storage.getSetting('dateBucketing', null);
+    if (!dateBucketing?.legacyUtcBefore || dateBucketing.rebucketedAt) return;
+
+    const result = await this.recomputeAggregates({ start: '1970-01-01', end: dateBucketing.legacyUtcBefore }, false);
+    await storage.setSetting('dateBucketing', {
+      ...dateBucketing,
+      legacyUtcBefore: result.range.start <= result.range.end ? result.range.start : dateBucketing.legacyUtcBefore,
+      rebucketedAt: Date.now()
+    });
+  }
+
+  /**
+   * Rebuilds the daily aggregates for a range by replaying the raw events. Days
+   * whose events may already be cleaned up can't be rebuilt, nor can days already
+   * rolled up into weeks and months, so the range starts at the first day the
+   * events fully cover. A dry run only reports the diff.
+   */
+  private async recomputeAggregates(range: DateRange, dryRun: boolean): Promise<RecomputeResult> {
+    const rollupCutoff = storage.getRollupCutoff();
+    let firstCoveredDate = shiftDateString(getDateString(new Date(storage.getEventRetentionStart())), 1);
+    if (rollupCutoff && rollupCutoff > firstCoveredDate) firstCoveredDate = rollupCutoff;
+    const covered: DateRange = {
+      start: range.start > firstCoveredDate ? range.start : firstCoveredDate,
+      end: range.end
+    };
+    if (covered.start > covered.end) {
+      return { range: covered, eventsReplayed: 0, changes: [], applied: false };
+    }
+
+    const events = await storage.getEvents(
+      getDayStartTime(covered.start) - REPLAY_LEAD_MS,
+      getDayStartTime(shiftDateString(covered.end, 1))
+    );
+    const current = await storage.getDailyAggregates(covered);
+    const rebuilt = carryImportedCounts(
+      current,
+      replayEvents(events, this.countingRules).filter(agg => agg.date >= covered.start && agg.date <= covered.end)
+    );
+    const changes = diffAggregates(current, rebuilt);
+
+    if (!dryRun && changes.length > 0) {
+      await storage.replaceAggregates(covered, rebuilt);
+    }
+
+    return { range: covered, eventsReplayed: events.length, changes, applied: !dryRun && changes.length > 0 };
+  }
+
   private async exportData(options: { format: 'csv' | 'json'; range: { start: string; end: string } }): Promise<string> {
     const { format, range } = options;
     
@@ -311,7 +1120,82 @@ class BackgroundEngine {
     }
   }
 
-  private cleanupTabSessions(tabId: number): void {
+  private async setPlatformEnabled(platformId: string, enabled: boolean): Promise<void> {
+    const enabledPlatforms: EnabledPlatforms = await storage.getSetting('enabledPlatforms', {});
+    enabledPlatforms[platformId] = enabled;
+    await storage.setSetting('enabledPlatforms', enabledPlatforms);
+
+    // Let open tabs switch their platform module on or off without a reload
+    const tabs = await chrome.tabs.query({});
+    for (const tab of tabs) {
+      if (tab.id) {
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'ENABLED_PLATFORMS_UPDATE',
+          payload: enabledPlatforms
+        }).catch(() => {
+          // Tab has no content script
+        });
+      }
+    }
+  }
+
+  private async setGenericSites(siteConfigs: GenericSiteConfig[]): Promise<void> {
+    await storage.setSetting('genericSites', siteConfigs);
+    await this.syncGenericSiteScripts();
+
+    const tabs = await chrome.tabs.query({});
+    for (const tab of tabs) {
+      if (tab.id) {
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'GENERIC_SITES_UPDATE',
+          payload: siteConfigs
+        }).catch(() => {
+          // Tab has no content script
+        });
+      }
+    }
+  }
+
+  /**
+   * Generic sites aren't in the manifest's content_scripts, so the content
+   * script is registered dynamically for every configured pattern the user
+   * has granted host access to.
+   */
+  private async syncGenericSiteScripts(): Promise<void> {
+    const siteConfigs: GenericSiteConfig[] = await storage.getSetting('genericSites', []);
+    const matches: string[] = [];
+
+    for (const config of siteConfigs) {
+      if (!config.enabled || matches.includes(config.urlPattern)) continue;
+      try {
+        if (await chrome.permissions.contains({ origins: [config.urlPattern] })) {
+          matches.push(config.urlPattern);
+        }
+      } catch (error) {
+        console.error(`Invalid URL pattern for generic site "${config.name}":`, error);
+      }
+    }
+
+    try {
+      const registered = await chrome.scripting.getRegisteredContentScripts({ ids: ['generic-sites'] });
+      if (registered.length > 0) {
+        await chrome.scripting.unregisterContentScripts({ ids: ['generic-sites'] });
+      }
+
+      if (matches.length > 0) {
+        await chrome.scripting.registerContentScripts([{
+          id: 'generic-sites',
+          matches,
+          js: ['contentScript.js'],
+          runAt: 'document_idle'
+        }]);
+      }
+    } catch (error) {
+      console.error('Failed to register generic site content scripts:', error);
+    }
+  }
+
+  private async cleanupTabSessions(tabId: number): Promise<void> {
     // Remove all sessions for this tab
     const keysToDelete: string[] = [];
     for (const [key] of this.sessions.entries()) {
@@ -322,6 +1206,7 @@ class BackgroundEngine {
     
     keysToDelete.forEach(key => this.sessions.delete(key));
     this.tabStats.delete(tabId);
+    await this.persistSessions();
   }
 }
 
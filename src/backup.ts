@@ -0,0 +1,75 @@
+import { BackupFile, BackupStoreName } from './types';
+
+export const BACKUP_FORMAT = 'social-watch-tracker-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks that parsed JSON is a backup this version can restore: the right
+ * format, a schema no newer than the database's, and an array of records for
+ * each of its stores, all of which this version has. Throws with a message fit
+ * for the dashboard otherwise.
+ */
+export function validateBackup(
+  data: unknown,
+  currentSchemaVersion: number,
+  storeNames: readonly BackupStoreName[]
+): BackupFile {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Social Watch Tracker backup');
+  }
+  if (data.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version ${data.formatVersion}`);
+  }
+  if (typeof data.schemaVersion !== 'number' || !Number.isInteger(data.schemaVersion) || data.schemaVersion < 1) {
+    throw new Error('Backup has no schema version');
+  }
+  if (data.schemaVersion > currentSchemaVersion) {
+    throw new Error(
+      `Backup is from a newer version of the extension (schema v${data.schemaVersion}, this one is v${currentSchemaVersion})`
+    );
+  }
+  if (typeof data.createdAt !== 'number') {
+    throw new Error('Backup has no creation time');
+  }
+  if (!isObject(data.stores) || Array.isArray(data.stores)) {
+    throw new Error('Backup has no stores');
+  }
+
+  const stores: BackupFile['stores'] = {};
+  for (const [name, records] of Object.entries(data.stores)) {
+    // No store has ever been dropped, so every store a backup can have exists here
+    const storeName = storeNames.find(storeName => storeName === name);
+    if (!storeName) {
+      throw new Error(`Store ${name} in the backup doesn't exist in this version`);
+    }
+    if (!Array.isArray(records)) {
+      throw new Error(`Store ${name} in the backup isn't a list of records`);
+    }
+    if (records.some(record => !isObject(record))) {
+      throw new Error(`Store ${name} in the backup has malformed records`);
+    }
+    stores[storeName] = records;
+  }
+
+  return {
+    format: data.format,
+    formatVersion: data.formatVersion,
+    schemaVersion: data.schemaVersion,
+    createdAt: data.createdAt,
+    stores
+  };
+}
+
+/**
+ * A backed-up record's key, or undefined when it has none. Every store is keyed
+ * by a string property.
+ */
+export function getRecordKey(record: unknown, keyPath: string): string | undefined {
+  if (!isObject(record)) return undefined;
+  const key = record[keyPath];
+  return typeof key === 'string' ? key : undefined;
+}
\ No newline at end of file
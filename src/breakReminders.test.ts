@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BreakReminderRecord, ContinuousWatch } from './types';
+import { answerBreakReminder, trackContinuousWatch } from './breakReminders';
+
+const MINUTE = 60000;
+const settings = { thresholdMinutes: 45, breakMinutes: 5 };
+
+// A minute of playback at a time, the way the background sees throttled updates add up
+function watch(current: ContinuousWatch | null, fromMs: number, minutes: number) {
+  let continuousWatch = current;
+  const due: number[] = [];
+  for (let minute = 1; minute <= minutes; minute++) {
+    const result = trackContinuousWatch(continuousWatch, fromMs + minute * MINUTE, MINUTE, settings);
+    continuousWatch = result.continuousWatch;
+    if (result.dueWatchedMs !== null) due.push(result.dueWatchedMs);
+  }
+  return { continuousWatch: continuousWatch!, due };
+}
+
+function createRecord(outcome: BreakReminderRecord['outcome'] = 'pending'): BreakReminderRecord {
+  return { id: 'reminder-1', timestamp: 0, watchedMs: 45 * MINUTE, outcome };
+}
+
+describe('trackContinuousWatch', () => {
+  it('reminds once the threshold of unbroken watching is reached', () => {
+    expect(watch(null, 0, 44).due).toEqual([]);
+    expect(watch(null, 0, 45).due).toEqual([45 * MINUTE]);
+  });
+
+  it('keeps the stretch across pauses shorter than a break', () => {
+    const before = watch(null, 0, 30).continuousWatch;
+    const after = watch(before, 34 * MINUTE, 15);
+    // The stretch runs from its start, short pauses included
+    expect(after.continuousWatch.startTime).toBe(0);
+    expect(after.due).toEqual([45 * MINUTE]);
+  });
+
+  it('starts over after a pause as long as the break', () => {
+    const before = watch(null, 0, 30).continuousWatch;
+    const after = watch(before, 35 * MINUTE, 15);
+    expect(after.continuousWatch.startTime).toBe(35 * MINUTE);
+    expect(after.due).toEqual([]);
+  });
+
+  it('snoozes an unanswered reminder until another threshold has been watched', () => {
+    expect(watch(null, 0, 134).due).toEqual([45 * MINUTE, 90 * MINUTE]);
+  });
+});
+
+describe('answerBreakReminder', () => {
+  const continuousWatch: ContinuousWatch = { startTime: 0, lastTime: 45 * MINUTE, remindedMs: 45 * MINUTE };
+
+  it('stores the outcome and ends the stretch when the break is taken', () => {
+    expect(answerBreakReminder(createRecord(), 'accepted', continuousWatch)).toEqual({
+      record: createRecord('accepted'),
+      continuousWatch: null
+    });
+  });
+
+  it('keeps the stretch running when the reminder is ignored', () => {
+    expect(answerBreakReminder(createRecord(), 'ignored', continuousWatch)).toEqual({
+      record: createRecord('ignored'),
+      continuousWatch
+    });
+  });
+
+  it('stores nothing for a reminder already answered or unknown', () => {
+    expect(answerBreakReminder(createRecord('ignored'), 'accepted', continuousWatch)).toEqual({ record: null, continuousWatch });
+    expect(answerBreakReminder(undefined, 'accepted', continuousWatch)).toEqual({ record: null, continuousWatch });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { BreakReminderRecord, BreakReminderSettings, ContinuousWatch } from './types';
+
+/**
+ * Adds `watchMsDelta` of playback ending at `timestamp` to the current stretch.
+ * A gap of at least the break length starts a new one, so short pauses and
+ * switching videos or tabs don't. Once another threshold's worth has been
+ * watched since the last reminder, `dueWatchedMs` says how long the stretch has
+ * run and the reminder is marked as given.
+ */
+export function trackContinuousWatch(
+  current: ContinuousWatch | null,
+  timestamp: number,
+  watchMsDelta: number,
+  settings: Pick<BreakReminderSettings, 'thresholdMinutes' | 'breakMinutes'>
+): { continuousWatch: ContinuousWatch; dueWatchedMs: number | null } {
+  const activityStart = timestamp - watchMsDelta;
+  const continuousWatch = !current || activityStart - current.lastTime >= settings.breakMinutes * 60000
+    ? { startTime: activityStart, lastTime: timestamp, remindedMs: 0 }
+    : { ...current, lastTime: Math.max(current.lastTime, timestamp) };
+
+  const watchedMs = continuousWatch.lastTime - continuousWatch.startTime;
+  if (watchedMs - continuousWatch.remindedMs < settings.thresholdMinutes * 60000) {
+    return { continuousWatch, dueWatchedMs: null };
+  }
+
+  return { continuousWatch: { ...continuousWatch, remindedMs: watchedMs }, dueWatchedMs: watchedMs };
+}
+
+/**
+ * Applies the answer to a reminder. Only a pending one takes an outcome, so a
+ * late or repeated answer stores nothing (`record` is null). A break that was
+ * taken ends the stretch, however soon playback resumes; an ignored reminder
+ * leaves it running until the next threshold.
+ */
+export function answerBreakReminder(
+  record: BreakReminderRecord | undefined,
+  outcome: BreakReminderRecord['outcome'],
+  continuousWatch: ContinuousWatch | null
+): { record: BreakReminderRecord | null; continuousWatch: ContinuousWatch | null } {
+  if (!record || record.outcome !== 'pending') {
+    return { record: null, continuousWatch };
+  }
+
+  return {
+    record: { ...record, outcome },
+    continuousWatch: outcome === 'accepted' ? null : continuousWatch
+  };
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Budget, DailyAggregate, Platform, Category } from './types';
+import { budgetMatches, evaluateBudgets, findEnforcedBudget, getBudgetLabel } from './budgets';
+
+function createBudget(overrides: Partial<Budget> = {}): Budget {
+  return {
+    id: 'budget-1',
+    platform: 'youtube',
+    category: 'shorts',
+    dailyLimitMinutes: 30,
+    enabled: true,
+    ...overrides
+  };
+}
+
+function createAggregate(platform: Platform, category: Category, watchMinutes: number): DailyAggregate {
+  return {
+    key: `2024-03-04::${platform}::${category}`,
+    date: '2024-03-04',
+    platform,
+    category,
+    watchMs: watchMinutes * 60000,
+    attendedMs: 0,
+    contentMs: 0,
+    count: 0
+  };
+}
+
+describe('budgetMatches', () => {
+  it('matches a platform and category, with all as a wildcard', () => {
+    expect(budgetMatches(createBudget(), 'youtube', 'shorts')).toBe(true);
+    expect(budgetMatches(createBudget(), 'youtube', 'regular')).toBe(false);
+    expect(budgetMatches(createBudget({ platform: 'all' }), 'tiktok', 'shorts')).toBe(true);
+    expect(budgetMatches(createBudget({ category: 'all' }), 'youtube', 'regular')).toBe(true);
+  });
+});
+
+describe('getBudgetLabel', () => {
+  it('names wildcards in words', () => {
+    expect(getBudgetLabel(createBudget())).toBe('youtube · shorts');
+    expect(getBudgetLabel(createBudget({ platform: 'all', category: 'all' }))).toBe('All platforms · everything');
+  });
+});
+
+describe('evaluateBudgets', () => {
+  const aggregates = [
+    createAggregate('youtube', 'shorts', 20),
+    createAggregate('youtube', 'regular', 40),
+    createAggregate('tiktok', 'tiktok', 15)
+  ];
+
+  it('sums the watch time of matching aggregates', () => {
+    const [status] = evaluateBudgets([createBudget()], aggregates);
+    expect(status.usedMs).toBe(20 * 60000);
+    expect(status.remainingMs).toBe(10 * 60000);
+    expect(status.warning).toBe(false);
+    expect(status.exceeded).toBe(false);
+    expect(status.enforcement).toBe('warn');
+  });
+
+  it('warns past 80% and flags a used-up budget', () => {
+    const [warning] = evaluateBudgets([createBudget({ dailyLimitMinutes: 24 })], aggregates);
+    expect(warning.warning).toBe(true);
+    expect(warning.exceeded).toBe(false);
+
+    const [exceeded] = evaluateBudgets([createBudget({ platform: 'all', category: 'all', dailyLimitMinutes: 60 })], aggregates);
+    expect(exceeded.usedMs).toBe(75 * 60000);
+    expect(exceeded.remainingMs).toBe(0);
+    expect(exceeded.warning).toBe(false);
+    expect(exceeded.exceeded).toBe(true);
+  });
+
+  it('skips disabled budgets and ones without a limit', () => {
+    const budgets = [createBudget({ enabled: false }), createBudget({ id: 'budget-2', dailyLimitMinutes: 0 })];
+    expect(evaluateBudgets(budgets, aggregates)).toEqual([]);
+  });
+
+  it('reports an override only while it lasts', () => {
+    const now = 1_000_000;
+    const [active] = evaluateBudgets([createBudget()], aggregates, { 'budget-1': now + 1000 }, now);
+    expect(active.overriddenUntil).toBe(now + 1000);
+
+    const [expired] = evaluateBudgets([createBudget()], aggregates, { 'budget-1': now - 1000 }, now);
+    expect(expired.overriddenUntil).toBeUndefined();
+  });
+});
+
+describe('findEnforcedBudget', () => {
+  const aggregates = [createAggregate('youtube', 'shorts', 45)];
+  const now = 1_000_000;
+
+  it('returns a used-up budget that enforces more than a warning', () => {
+    const statuses = evaluateBudgets([createBudget({ enforcement: 'pause' })], aggregates, {}, now);
+    expect(findEnforcedBudget(statuses, 'youtube', 'shorts', now)?.budgetId).toBe('budget-1');
+    expect(findEnforcedBudget(statuses, 'youtube', 'regular', now)).toBeNull();
+  });
+
+  it('leaves warn-only and unfinished budgets alone', () => {
+    const statuses = evaluateBudgets([
+      createBudget(),
+      createBudget({ id: 'budget-2', dailyLimitMinutes: 60, enforcement: 'block' })
+    ], aggregates, {}, now);
+    expect(findEnforcedBudget(statuses, 'youtube', 'shorts', now)).toBeNull();
+  });
+
+  it('lifts enforcement while a snooze or override lasts', () => {
+    const statuses = evaluateBudgets([createBudget({ enforcement: 'block' })], aggregates, { 'budget-1': now + 1000 }, now);
+    expect(findEnforcedBudget(statuses, 'youtube', 'shorts', now)).toBeNull();
+    expect(findEnforcedBudget(statuses, 'youtube', 'shorts', now + 2000)?.budgetId).toBe('budget-1');
+  });
+});
\ No newline at end of file
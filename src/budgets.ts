@@ -0,0 +1,68 @@
+import { Budget, BudgetStatus, DailyAggregate, Platform, Category } from './types';
+
+// Share of a budget after which the overlay turns to its warning colour
+export const BUDGET_WARNING_RATIO = 0.8;
+export const BUDGET_SNOOZE_MINUTES = 5;
+
+export function budgetMatches(budget: Pick<Budget, 'platform' | 'category'>, platform: Platform, category: Category): boolean {
+  return (budget.platform === 'all' || budget.platform === platform) &&
+    (budget.category === 'all' || budget.category === category);
+}
+
+export function getBudgetLabel(budget: Pick<Budget, 'platform' | 'category'>): string {
+  const platform = budget.platform === 'all' ? 'All platforms' : budget.platform;
+  const category = budget.category === 'all' ? 'everything' : budget.category;
+  return `${platform} · ${category}`;
+}
+
+/**
+ * Measures each enabled budget against today's aggregates. Budgets are based on
+ * playing time, the same number the overlay shows. `overrides` maps budget ids
+ * to the time a snooze or override runs out.
+ */
+export function evaluateBudgets(
+  budgets: Budget[],
+  todayAggregates: DailyAggregate[],
+  overrides: Record<string, number> = {},
+  now: number = Date.now()
+): BudgetStatus[] {
+  return budgets
+    .filter(budget => budget.enabled && budget.dailyLimitMinutes > 0)
+    .map(budget => {
+      const limitMs = budget.dailyLimitMinutes * 60000;
+      const usedMs = todayAggregates
+        .filter(agg => budgetMatches(budget, agg.platform, agg.category))
+        .reduce((sum, agg) => sum + agg.watchMs, 0);
+
+      return {
+        budgetId: budget.id,
+        platform: budget.platform,
+        category: budget.category,
+        limitMs,
+        usedMs,
+        remainingMs: Math.max(0, limitMs - usedMs),
+        warning: usedMs >= limitMs * BUDGET_WARNING_RATIO && usedMs < limitMs,
+        exceeded: usedMs >= limitMs,
+        enforcement: budget.enforcement || 'warn',
+        overriddenUntil: overrides[budget.id] > now ? overrides[budget.id] : undefined
+      };
+    });
+}
+
+/**
+ * The exhausted budget, if any, that should stop playback of this platform and
+ * category right now.
+ */
+export function findEnforcedBudget(
+  statuses: BudgetStatus[],
+  platform: Platform,
+  category: Category,
+  now: number = Date.now()
+): BudgetStatus | null {
+  return statuses.find(status =>
+    status.exceeded &&
+    status.enforcement !== 'warn' &&
+    !(status.overriddenUntil && status.overriddenUntil > now) &&
+    budgetMatches(status, platform, category)
+  ) || null;
+}
\ No newline at end of file
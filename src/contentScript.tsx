@@ -1,15 +1,38 @@
 import { createRoot } from 'react-dom/client';
-import { YouTubeModule } from './platforms/youtubeModule';
-import { PlatformModule } from './platforms/platformInterface';
-import { TrackerEvent } from './types';
+import { platformRegistry, registerGenericSites, PlatformModule, PlatformModuleHandle } from './platforms';
+import {
+  TrackerEvent,
+  EnabledPlatforms,
+  GenericSiteConfig,
+  RuntimeMessage,
+  BudgetStatus,
+  BudgetOverrideEvent,
+  BreakReminderPrompt,
+  BreakReminderRecord
+} from './types';
+import { findEnforcedBudget } from './budgets';
+import { extractVideoId, getShortsWatchUrl } from './utils';
 import OverlayApp from './overlay/OverlayApp';
 
+// Video ID of the Short a 'redirect' budget last sent to the regular player in this tab
+const REDIRECTED_SHORT_KEY = 'swt-redirected-short';
+
 class ContentScript {
   private platformModule: PlatformModule | null = null;
   private overlayContainer: HTMLDivElement | null = null;
   private shadowRoot: ShadowRoot | null = null;
   private reactRoot: any = null;
-  private moduleCleanup: (() => void) | null = null;
+  private moduleHandle: PlatformModuleHandle | null = null;
+  private activePlatformId: string | null = null;
+  private enabledPlatforms: EnabledPlatforms = {};
+  private lastUrl = '';
+  private urlCheckInterval: number | null = null;
+  private budgetStatus: BudgetStatus[] = [];
+  // Platform and category of the video most recently reported by the module
+  private currentPlayback: Pick<TrackerEvent, 'platform' | 'category'> | null = null;
+  // The used-up budget currently pausing or blocking playback
+  private enforcedBudget: BudgetStatus | null = null;
+  private breakReminder: BreakReminderPrompt | null = null;
 
   constructor() {
     this.init();
@@ -25,7 +48,10 @@ class ContentScript {
       }
 
       // Initialize platform module
+      this.enabledPlatforms = await this.fetchEnabledPlatforms();
+      registerGenericSites(await this.fetchGenericSites());
       await this.initializePlatformModule();
+      this.watchForPlatformChanges();
       
       // Create overlay
       await this.createOverlay();
@@ -40,20 +66,182 @@ class ContentScript {
 
   private async initializePlatformModule(): Promise<void> {
     const currentUrl = window.location.href;
+    this.lastUrl = currentUrl;
     
     // Check which platform module to load
-    const youtubeModule = new YouTubeModule();
-    
-    if (youtubeModule.matches(currentUrl)) {
-      this.platformModule = youtubeModule;
+    const platformId = platformRegistry.findMatch(currentUrl, this.enabledPlatforms);
+    if (platformId === this.activePlatformId) return;
+
+    this.destroyPlatformModule();
+    if (!platformId) return;
+
+    const platformModule = platformRegistry.create(platformId);
+    if (platformModule) {
+      this.platformModule = platformModule;
+      this.activePlatformId = platformId;
       
       // Initialize the module with event emission
-      this.moduleCleanup = this.platformModule.init(document, (event: TrackerEvent) => {
+      this.moduleHandle = this.platformModule.init(document, (event: TrackerEvent) => {
         this.handleTrackerEvent(event);
-      }).destroy;
+      });
+    }
+  }
+
+  private destroyPlatformModule(): void {
+    if (this.moduleHandle) {
+      this.moduleHandle.destroy();
+      this.moduleHandle = null;
+    }
+
+    this.platformModule = null;
+    this.activePlatformId = null;
+    this.currentPlayback = null;
+  }
+
+  private async fetchEnabledPlatforms(): Promise<EnabledPlatforms> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_ENABLED_PLATFORMS'
+      });
+      return response && !response.error ? response : {};
+    } catch (error) {
+      console.error('Failed to fetch enabled platforms:', error);
+      return {};
     }
   }
 
+  private async fetchGenericSites(): Promise<GenericSiteConfig[]> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_GENERIC_SITES'
+      });
+      return Array.isArray(response) ? response : [];
+    } catch (error) {
+      console.error('Failed to fetch generic site configs:', error);
+      return [];
+    }
+  }
+
+  private watchForPlatformChanges(): void {
+    // SPA navigations don't reload the content script, so re-check the match on URL changes
+    this.urlCheckInterval = setInterval(() => {
+      if (window.location.href !== this.lastUrl) {
+        this.initializePlatformModule();
+      }
+    }, 1000) as unknown as number;
+
+    chrome.runtime.onMessage.addListener(this.handleRuntimeMessage);
+  }
+
+  private handleRuntimeMessage = (message: RuntimeMessage): void => {
+    if (message.type === 'ENABLED_PLATFORMS_UPDATE') {
+      this.enabledPlatforms = message.payload || {};
+      this.initializePlatformModule();
+    } else if (message.type === 'GENERIC_SITES_UPDATE') {
+      registerGenericSites(message.payload || []);
+      // Force a fresh module so it picks up the edited config
+      if (this.activePlatformId === 'generic') this.destroyPlatformModule();
+      this.initializePlatformModule();
+    } else if (message.type === 'BUDGET_STATUS_UPDATE') {
+      this.budgetStatus = message.payload || [];
+      this.enforceBudgets();
+    } else if (message.type === 'BREAK_REMINDER') {
+      this.breakReminder = message.payload;
+      if (this.breakReminder?.pauseVideo) this.moduleHandle?.pause();
+      this.renderOverlay();
+    }
+  };
+
+  private handleBreakReminderResponse = async (outcome: Exclude<BreakReminderRecord['outcome'], 'pending'>): Promise<void> => {
+    if (!this.breakReminder) return;
+
+    const { reminderId } = this.breakReminder;
+    if (outcome === 'accepted') {
+      this.moduleHandle?.pause();
+    } else {
+      this.breakReminder = null;
+      this.renderOverlay();
+    }
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'BREAK_REMINDER_RESPONSE',
+        payload: { reminderId, outcome }
+      });
+    } catch (error) {
+      console.error('Failed to record break reminder response:', error);
+    }
+  };
+
+  private handleBreakFinished = (): void => {
+    this.breakReminder = null;
+    this.renderOverlay();
+  };
+
+  /**
+   * Applies the enforcement of any used-up budget covering what's playing:
+   * Shorts can be sent to the regular player, everything else is paused, and
+   * 'block' also puts the interstitial over the page. Either way the overlay
+   * offers a snooze or override until one is chosen.
+   */
+  private enforceBudgets(): void {
+    // A redirected Short still reads as a Short by its duration in the regular
+    // player, which is where the redirect meant it to be watched
+    const statuses = this.isRedirectedShort()
+      ? this.budgetStatus.filter(status => status.enforcement !== 'redirect')
+      : this.budgetStatus;
+    const budget = this.currentPlayback
+      ? findEnforcedBudget(statuses, this.currentPlayback.platform, this.currentPlayback.category)
+      : null;
+
+    if (budget?.enforcement === 'redirect') {
+      const watchUrl = getShortsWatchUrl(window.location.href);
+      if (watchUrl) {
+        sessionStorage.setItem(REDIRECTED_SHORT_KEY, extractVideoId(window.location.href) || '');
+        window.location.replace(watchUrl);
+        return;
+      }
+    }
+
+    if (budget) {
+      this.moduleHandle?.pause();
+    }
+
+    // Redirect falls back to blocking where there's nothing to redirect to
+    if (budget?.budgetId !== this.enforcedBudget?.budgetId || budget?.enforcement !== this.enforcedBudget?.enforcement) {
+      this.enforcedBudget = budget;
+      this.renderOverlay();
+    }
+  }
+
+  private isRedirectedShort(): boolean {
+    if (window.location.pathname.startsWith('/shorts')) return false;
+
+    const videoId = extractVideoId(window.location.href);
+    return !!videoId && sessionStorage.getItem(REDIRECTED_SHORT_KEY) === videoId;
+  }
+
+  private handleBudgetOverride = async (action: BudgetOverrideEvent['action']): Promise<void> => {
+    if (!this.enforcedBudget) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'OVERRIDE_BUDGET',
+        payload: { budgetId: this.enforcedBudget.budgetId, action, url: window.location.href }
+      });
+
+      if (response?.success) {
+        const { budgetId } = this.enforcedBudget;
+        this.budgetStatus = this.budgetStatus.map(status =>
+          status.budgetId === budgetId ? { ...status, overriddenUntil: response.overriddenUntil } : status
+        );
+        this.enforceBudgets();
+      }
+    } catch (error) {
+      console.error('Failed to override budget:', error);
+    }
+  };
+
   private async createOverlay(): Promise<void> {
     // Create container element
     this.overlayContainer = document.createElement('div');
@@ -79,15 +267,29 @@ class ContentScript {
 
     // Render React app
     this.reactRoot = createRoot(reactContainer);
-    this.reactRoot.render(<OverlayApp />);
+    this.renderOverlay();
 
     // Add to page
     document.body.appendChild(this.overlayContainer);
   }
 
+  private renderOverlay(): void {
+    this.reactRoot?.render(
+      <OverlayApp
+        blockedBudget={this.enforcedBudget?.enforcement !== 'pause' ? this.enforcedBudget : null}
+        pausedBudget={this.enforcedBudget?.enforcement === 'pause' ? this.enforcedBudget : null}
+        onBudgetOverride={this.handleBudgetOverride}
+        breakReminder={this.breakReminder}
+        onBreakReminderResponse={this.handleBreakReminderResponse}
+        onBreakFinished={this.handleBreakFinished}
+      />
+    );
+  }
+
   private async loadOverlayCSS(): Promise<void> {
     try {
-      // Get CSS from web accessible resources
+      // Get CSS from web accessible resources. It's exposed to every site, as generic
+      // sites are granted at runtime; chrome.scripting.insertCSS can't reach the shadow root
       const cssUrl = chrome.runtime.getURL('overlay.css');
       const response = await fetch(cssUrl);
       const cssText = await response.text();
@@ -120,10 +322,24 @@ class ContentScript {
   }
 
   private handleTrackerEvent(event: TrackerEvent): void {
+    if (!event.isAd) {
+      this.currentPlayback = { platform: event.platform, category: event.category };
+    }
+
+    // Playback resumed or moved on to another video while a budget is used up
+    if (event.type !== 'pause' && event.type !== 'end' && event.type !== 'close') {
+      this.enforceBudgets();
+    }
+
     // Send event to background script
     chrome.runtime.sendMessage({
       type: 'TRACK_EVENT',
-      payload: event
+      payload: {
+        ...event,
+        // Hidden covers background tabs and minimized windows
+        pageVisible: document.visibilityState === 'visible',
+        pageFocused: document.hasFocus()
+      }
     }).catch(error => {
       console.error('Failed to send tracker event:', error);
     });
@@ -131,10 +347,13 @@ class ContentScript {
 
   private cleanup(): void {
     // Clean up platform module
-    if (this.moduleCleanup) {
-      this.moduleCleanup();
-      this.moduleCleanup = null;
+    this.destroyPlatformModule();
+
+    if (this.urlCheckInterval !== null) {
+      clearInterval(this.urlCheckInterval);
+      this.urlCheckInterval = null;
     }
+    chrome.runtime.onMessage.removeListener(this.handleRuntimeMessage);
 
     // Clean up React
     if (this.reactRoot) {
@@ -149,7 +368,6 @@ class ContentScript {
     }
 
     this.shadowRoot = null;
-    this.platformModule = null;
   }
 }
 
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CountingRules, SessionState, TrackerEvent } from './types';
+import { DEFAULT_COUNTING_RULES, isAttended, shouldCountSession, trackPlaybackPosition } from './counting';
+
+function createSession(overrides: Partial<SessionState> = {}): SessionState {
+  return {
+    videoId: 'abc',
+    platform: 'youtube',
+    category: 'shorts',
+    startTime: 0,
+    lastUpdateTime: 0,
+    totalWatchMs: 0,
+    counted: false,
+    ...overrides
+  };
+}
+
+function createEvent(overrides: Partial<TrackerEvent> = {}): TrackerEvent {
+  return {
+    timestamp: 0,
+    platform: 'youtube',
+    category: 'shorts',
+    type: 'time_update',
+    ...overrides
+  };
+}
+
+describe('trackPlaybackPosition', () => {
+  it('measures content by how far the position moved', () => {
+    const session = createSession({ lastPositionMs: 1000 });
+    expect(trackPlaybackPosition(session, createEvent({ currentTime: 1800 }), 1000)).toBe(800);
+    expect(session.lastPositionMs).toBe(1800);
+  });
+
+  it('falls back to wall time scaled by the playback rate without a previous position', () => {
+    const session = createSession();
+    expect(trackPlaybackPosition(session, createEvent({ currentTime: 5000, playbackRate: 2 }), 1000)).toBe(2000);
+  });
+
+  it('flags a jump from the end back to the start as a loop', () => {
+    const session = createSession({ lastPositionMs: 29500, durationMs: 30000 });
+    expect(trackPlaybackPosition(session, createEvent({ currentTime: 200 }), 1000)).toBe(1000);
+    expect(session.looped).toBe(true);
+    expect(session.seekCount).toBeUndefined();
+  });
+
+  it('counts a jump elsewhere as a seek', () => {
+    const session = createSession({ lastPositionMs: 10000, durationMs: 60000 });
+    expect(trackPlaybackPosition(session, createEvent({ currentTime: 40000 }), 1000)).toBe(1000);
+    expect(session.seekCount).toBe(1);
+    expect(session.looped).toBeUndefined();
+  });
+
+  it('remembers the duration from the event', () => {
+    const session = createSession();
+    trackPlaybackPosition(session, createEvent({ duration: 45000 }));
+    expect(session.durationMs).toBe(45000);
+  });
+});
+
+describe('shouldCountSession', () => {
+  const rules: CountingRules = { minWatchSeconds: 10, minWatchPercent: 50, countOnLoop: true };
+
+  it('counts once the watch time threshold is reached', () => {
+    expect(shouldCountSession(createSession({ totalWatchMs: 9999 }), rules)).toBe(false);
+    expect(shouldCountSession(createSession({ totalWatchMs: 10000 }), rules)).toBe(true);
+  });
+
+  it('counts once the watched share of a short video is reached', () => {
+    expect(shouldCountSession(createSession({ totalWatchMs: 3000, durationMs: 8000 }), rules)).toBe(false);
+    expect(shouldCountSession(createSession({ totalWatchMs: 4000, durationMs: 8000 }), rules)).toBe(true);
+  });
+
+  it('counts a loop only when the rule is on', () => {
+    const session = createSession({ totalWatchMs: 1000, looped: true });
+    expect(shouldCountSession(session, rules)).toBe(true);
+    expect(shouldCountSession(session, { ...rules, countOnLoop: false })).toBe(false);
+  });
+
+  it('ignores a threshold set to 0', () => {
+    const session = createSession({ totalWatchMs: 60000, durationMs: 600000 });
+    expect(shouldCountSession(session, { ...rules, minWatchSeconds: 0 })).toBe(false);
+  });
+
+  it('never counts a session twice', () => {
+    expect(shouldCountSession(createSession({ totalWatchMs: 60000, counted: true }), DEFAULT_COUNTING_RULES)).toBe(false);
+  });
+});
+
+describe('isAttended', () => {
+  it('excludes idle users and hidden tabs', () => {
+    expect(isAttended(createEvent({ pageVisible: true }), true)).toBe(false);
+    expect(isAttended(createEvent({ pageVisible: false }), false)).toBe(false);
+  });
+
+  it('keeps an audible video in an unfocused window', () => {
+    expect(isAttended(createEvent({ pageFocused: false, muted: false }), false)).toBe(true);
+    expect(isAttended(createEvent({ pageFocused: false, muted: true }), false)).toBe(false);
+  });
+});
\ No newline at end of file
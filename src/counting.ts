@@ -0,0 +1,85 @@
+import { CountingRules, SessionState, TrackerEvent } from './types';
+
+export const DEFAULT_COUNTING_RULES: CountingRules = {
+  minWatchSeconds: 10,
+  minWatchPercent: 50,
+  countOnLoop: true
+};
+
+// How close to the end playback must have been for a jump back to the start to be a loop
+const LOOP_END_TOLERANCE_MS = 1500;
+const LOOP_START_TOLERANCE_MS = 1500;
+// Position drift between throttled updates that still counts as normal playback
+const SEEK_TOLERANCE_MS = 2000;
+
+/**
+ * Records the playback position from an event on the session, flags loops and
+ * seeks, and returns how much content (in media time) was consumed during the
+ * `wallDeltaMs` since the last update.
+ *
+ * Normal playback is measured by how far `currentTime` moved, so buffering
+ * stalls add nothing and 2x speed adds double. When the position jumps (a seek
+ * or a loop) the jump itself isn't content, so the estimate falls back to wall
+ * time scaled by the playback rate.
+ */
+export function trackPlaybackPosition(session: SessionState, event: TrackerEvent, wallDeltaMs: number = 0): number {
+  if (event.duration) session.durationMs = event.duration;
+
+  const expectedContentMs = wallDeltaMs * (event.playbackRate || 1);
+  if (event.currentTime === undefined) return expectedContentMs;
+
+  const previous = session.lastPositionMs;
+  session.lastPositionMs = event.currentTime;
+  if (previous === undefined) return expectedContentMs;
+
+  if (
+    session.durationMs &&
+    previous >= session.durationMs - LOOP_END_TOLERANCE_MS &&
+    event.currentTime <= LOOP_START_TOLERANCE_MS
+  ) {
+    session.looped = true;
+    return expectedContentMs;
+  }
+
+  const positionDelta = event.currentTime - previous;
+  if (positionDelta < -SEEK_TOLERANCE_MS || positionDelta > expectedContentMs + SEEK_TOLERANCE_MS) {
+    session.seekCount = (session.seekCount || 0) + 1;
+    return expectedContentMs;
+  }
+
+  return Math.max(0, positionDelta);
+}
+
+/**
+ * Decides whether a session has earned its view. The background checks this on
+ * every update and writes the count straight into the aggregates, which both the
+ * overlay and the dashboard read, so the two always agree.
+ */
+export function shouldCountSession(session: SessionState, rules: CountingRules): boolean {
+  if (session.counted) return false;
+
+  if (rules.minWatchSeconds > 0 && session.totalWatchMs >= rules.minWatchSeconds * 1000) {
+    return true;
+  }
+
+  if (
+    rules.minWatchPercent > 0 &&
+    session.durationMs &&
+    session.totalWatchMs >= session.durationMs * (rules.minWatchPercent / 100)
+  ) {
+    return true;
+  }
+
+  return rules.countOnLoop && !!session.looped;
+}
+
+
+/**
+ * Playing time becomes attended time only while the tab is visible and the
+ * user isn't idle. An unfocused window still counts if the video is audible
+ * (second screen); a muted video in an unfocused window is background noise.
+ */
+export function isAttended(event: TrackerEvent, userIdle: boolean): boolean {
+  if (userIdle || event.pageVisible === false) return false;
+  return event.pageFocused !== false || event.muted !== true;
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { RestoreMode, RestorePreview } from '../types';
+import { getDateString } from '../utils';
+
+const BackupRestore: React.FC = () => {
+  const [backup, setBackup] = useState<unknown>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBackup = async () => {
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'CREATE_BACKUP'
+      });
+
+      if (response && !response.error) {
+        const blob = new Blob([JSON.stringify(response)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `watch-tracker-backup-${getDateString()}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      console.error('Backup failed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPreview = async (nextBackup: unknown, nextMode: RestoreMode) => {
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    if (!nextBackup) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'PREVIEW_RESTORE',
+        payload: { backup: nextBackup, mode: nextMode }
+      });
+
+      if (response && !response.error) {
+        setPreview(response);
+      } else {
+        setError(response?.error || 'Backup could not be read');
+      }
+    } catch (error) {
+      console.error('Failed to preview restore:', error);
+      setError('Backup could not be read');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      setBackup(parsed);
+      await fetchPreview(parsed, mode);
+    } catch (error) {
+      console.error('Failed to read backup file:', error);
+      setBackup(null);
+      setPreview(null);
+      setError('File is not valid JSON');
+    }
+  };
+
+  const handleModeChange = (nextMode: RestoreMode) => {
+    setMode(nextMode);
+    fetchPreview(backup, nextMode);
+  };
+
+  const handleRestore = async () => {
+    const confirmation = mode === 'replace'
+      ? 'Delete the current data in these stores and replace it with the backup?'
+      : 'Add the records from the backup that aren\'t here yet?';
+    if (!window.confirm(confirmation)) return;
+
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'RESTORE_BACKUP',
+        payload: { backup, mode }
+      });
+
+      if (response && !response.error) {
+        const restored = (response as RestorePreview).stores.reduce(
+          (sum, store) => sum + (mode === 'replace' ? store.backupRecords : store.newRecords),
+          0
+        );
+        setMessage(`Restored ${restored} records. Reload the page to see them.`);
+        setPreview(null);
+        setBackup(null);
+      } else {
+        setError(response?.error || 'Restore failed');
+      }
+    } catch (error) {
+      console.error('Restore failed:', error);
+      setError('Restore failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="export-container">
+      <div className="setting-description">
+        A backup holds everything: raw events, aggregates, history and settings.
+      </div>
+      <div className="export-controls">
+        <div className="export-buttons">
+          <button className="btn btn-primary" onClick={handleBackup} disabled={loading}>
+            Download backup
+          </button>
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="restore-file">Restore from:</label>
+          <input id="restore-file" type="file" accept="application/json,.json" onChange={handleFileChange} />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="restore-mode">Mode:</label>
+          <select
+            id="restore-mode"
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as RestoreMode)}
+          >
+            <option value="merge">Merge (skip records already here)</option>
+            <option value="replace">Replace existing data</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="form-error">{error}</div>}
+      {message && <div className="setting-description">{message}</div>}
+
+      {preview && (
+        <>
+          <div className="setting-description">
+            Backup from {new Date(preview.createdAt).toLocaleString()} (schema v{preview.schemaVersion})
+          </div>
+          {preview.warnings.map(warning => (
+            <div key={warning} className="form-error">{warning}</div>
+          ))}
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Store</th>
+                <th>In Backup</th>
+                <th>New</th>
+                <th>{mode === 'replace' ? 'Deleted' : 'Already Here'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.stores.map(store => (
+                <tr key={store.name}>
+                  <td>{store.name}</td>
+                  <td>{store.backupRecords.toLocaleString()}</td>
+                  <td>{store.newRecords.toLocaleString()}</td>
+                  <td>
+                    {(mode === 'replace'
+                      ? store.existingRecords
+                      : store.backupRecords - store.newRecords
+                    ).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="export-buttons">
+            <button className="btn btn-primary" onClick={handleRestore} disabled={loading}>
+              {mode === 'replace' ? 'Replace data' : 'Merge backup'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
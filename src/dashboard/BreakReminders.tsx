@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { BreakReminderSettings, BreakReminderStats } from '../types';
+import { getDateString, getDaysAgo } from '../utils';
+
+const BreakReminders: React.FC = () => {
+  const [settings, setSettings] = useState<BreakReminderSettings | null>(null);
+  const [stats, setStats] = useState<BreakReminderStats | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+    fetchStats();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_BREAK_REMINDER'
+      });
+
+      if (response && !response.error) {
+        setSettings(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch break reminder settings:', error);
+    }
+  };
+
+  const fetchStats = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_BREAK_REMINDER_STATS',
+        payload: { range: { start: getDaysAgo(30), end: getDateString() } }
+      });
+
+      if (response && !response.error) {
+        setStats(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch break reminder stats:', error);
+    }
+  };
+
+  const updateSettings = async (changes: Partial<BreakReminderSettings>) => {
+    if (!settings) return;
+
+    const nextSettings = { ...settings, ...changes };
+    setSettings(nextSettings);
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_BREAK_REMINDER',
+        payload: nextSettings
+      });
+    } catch (error) {
+      console.error('Failed to update break reminder settings:', error);
+      fetchSettings();
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <div className="settings-container">
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Remind me to take breaks</div>
+          <div className="setting-description">
+            {stats && stats.shown > 0
+              ? `Last 30 days: ${stats.shown} reminders, ${stats.accepted} breaks taken, ${stats.ignored} ignored`
+              : 'Shows a card in the overlay after a long stretch of watching'}
+          </div>
+        </div>
+        <div
+          className={`toggle-switch ${settings.enabled ? 'active' : ''}`}
+          onClick={() => updateSettings({ enabled: !settings.enabled })}
+          role="switch"
+          aria-checked={settings.enabled}
+        />
+      </div>
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Remind after (minutes)</div>
+          <div className="setting-description">Continuous watching across videos and tabs</div>
+        </div>
+        <input
+          className="setting-input"
+          type="number"
+          min={1}
+          value={settings.thresholdMinutes}
+          onChange={(e) => updateSettings({ thresholdMinutes: Math.max(1, Number(e.target.value)) })}
+        />
+      </div>
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Break length (minutes)</div>
+          <div className="setting-description">Stopping for this long also restarts the clock</div>
+        </div>
+        <input
+          className="setting-input"
+          type="number"
+          min={1}
+          value={settings.breakMinutes}
+          onChange={(e) => updateSettings({ breakMinutes: Math.max(1, Number(e.target.value)) })}
+        />
+      </div>
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Pause the video</div>
+          <div className="setting-description">Pause playback when the reminder appears</div>
+        </div>
+        <div
+          className={`toggle-switch ${settings.pauseVideo ? 'active' : ''}`}
+          onClick={() => updateSettings({ pauseVideo: !settings.pauseVideo })}
+          role="switch"
+          aria-checked={settings.pauseVideo}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BreakReminders;
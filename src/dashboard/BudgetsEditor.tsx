@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Budget, BudgetEnforcement, BudgetOverrideEvent, Category, Platform } from '../types';
+import { generateEventId, getDateString, getDaysAgo } from '../utils';
+
+const PLATFORMS: Array<Platform | 'all'> = ['all', 'youtube', 'tiktok', 'instagram', 'generic'];
+const CATEGORIES: Array<Category | 'all'> = ['all', 'shorts', 'regular', 'reel', 'tiktok'];
+const ENFORCEMENT_LABELS: Record<BudgetEnforcement, string> = {
+  warn: 'Warn only',
+  pause: 'Pause video',
+  block: 'Pause and block',
+  redirect: 'Open Shorts in the regular player'
+};
+
+const BudgetsEditor: React.FC = () => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [overrides, setOverrides] = useState<BudgetOverrideEvent[]>([]);
+
+  useEffect(() => {
+    fetchBudgets();
+    fetchOverrides();
+  }, []);
+
+  const fetchBudgets = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_BUDGETS'
+      });
+
+      if (Array.isArray(response)) {
+        setBudgets(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch budgets:', error);
+    }
+  };
+
+  const fetchOverrides = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_BUDGET_OVERRIDES',
+        payload: { range: { start: getDaysAgo(30), end: getDateString() } }
+      });
+
+      if (Array.isArray(response)) {
+        setOverrides(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch budget overrides:', error);
+    }
+  };
+
+  const describeOverrides = (budgetId: string): string => {
+    const budgetOverrides = overrides.filter(event => event.budgetId === budgetId);
+    const snoozes = budgetOverrides.filter(event => event.action === 'snooze').length;
+    return `Last 30 days: ${snoozes} snoozes, ${budgetOverrides.length - snoozes} overrides`;
+  };
+
+  const saveBudgets = async (nextBudgets: Budget[]) => {
+    setBudgets(nextBudgets);
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_BUDGETS',
+        payload: nextBudgets
+      });
+    } catch (error) {
+      console.error('Failed to save budgets:', error);
+      fetchBudgets();
+    }
+  };
+
+  const updateBudget = (id: string, changes: Partial<Budget>) => {
+    saveBudgets(budgets.map(budget => budget.id === id ? { ...budget, ...changes } : budget));
+  };
+
+  const addBudget = () => {
+    saveBudgets([...budgets, {
+      id: generateEventId(),
+      platform: 'youtube',
+      category: 'shorts',
+      dailyLimitMinutes: 20,
+      enabled: true,
+      enforcement: 'warn'
+    }]);
+  };
+
+  return (
+    <div className="settings-container">
+      {budgets.length === 0 && (
+        <div className="setting-description">No budgets yet. Add one to get a daily limit in the overlay.</div>
+      )}
+
+      {budgets.map(budget => (
+        <div className="setting-item" key={budget.id}>
+          <div className="rule-row">
+            <select
+              value={budget.platform}
+              onChange={(e) => updateBudget(budget.id, { platform: e.target.value as Budget['platform'] })}
+            >
+              {PLATFORMS.map(p => <option key={p} value={p}>{p === 'all' ? 'All platforms' : p}</option>)}
+            </select>
+            <select
+              value={budget.category}
+              onChange={(e) => updateBudget(budget.id, { category: e.target.value as Budget['category'] })}
+            >
+              {CATEGORIES.map(c => <option key={c} value={c}>{c === 'all' ? 'All categories' : c}</option>)}
+            </select>
+            <input
+              className="setting-input"
+              type="number"
+              min={1}
+              value={budget.dailyLimitMinutes}
+              onChange={(e) => updateBudget(budget.id, { dailyLimitMinutes: Math.max(1, Number(e.target.value)) })}
+            />
+            <span className="setting-description">min / day</span>
+            <select
+              value={budget.enforcement || 'warn'}
+              onChange={(e) => updateBudget(budget.id, { enforcement: e.target.value as BudgetEnforcement })}
+            >
+              {(Object.keys(ENFORCEMENT_LABELS) as BudgetEnforcement[]).map(enforcement => (
+                <option key={enforcement} value={enforcement}>{ENFORCEMENT_LABELS[enforcement]}</option>
+              ))}
+            </select>
+            {budget.enforcement && budget.enforcement !== 'warn' && (
+              <span className="setting-description">{describeOverrides(budget.id)}</span>
+            )}
+          </div>
+          <div className="export-buttons">
+            <button
+              className="btn btn-secondary"
+              onClick={() => saveBudgets(budgets.filter(b => b.id !== budget.id))}
+            >
+              Delete
+            </button>
+            <div
+              className={`toggle-switch ${budget.enabled ? 'active' : ''}`}
+              onClick={() => updateBudget(budget.id, { enabled: !budget.enabled })}
+              role="switch"
+              aria-checked={budget.enabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="export-buttons">
+        <button className="btn btn-primary" onClick={addBudget}>Add budget</button>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetsEditor;
@@ -12,10 +12,30 @@ import {
   ArcElement,
 } from 'chart.js';
 import { Line, Bar, Doughnut } from 'react-chartjs-2';
-import { GlobalSummary, TabStats } from '../types';
-import { formatTime, getDateString, getDaysAgo } from '../utils';
+import { GlobalSummary, TabStats, EnabledPlatforms, CountingRules } from '../types';
+import { formatTime, getDateString, getDaysAgo, parseDateString, setDayStartHour } from '../utils';
+import GenericSitesEditor from './GenericSitesEditor';
+import BudgetsEditor from './BudgetsEditor';
+import SchedulesEditor from './SchedulesEditor';
+import GoalsEditor from './GoalsEditor';
+import BreakReminders from './BreakReminders';
+import TopChannels from './TopChannels';
+import Heatmap from './Heatmap';
+import History from './History';
+import Sessions from './Sessions';
+import Maintenance from './Maintenance';
+import DataRetention from './DataRetention';
+import BackupRestore from './BackupRestore';
+import TakeoutImport from './TakeoutImport';
 import './dashboard.css';
 
+const PLATFORM_LABELS: Record<string, string> = {
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+  instagram: 'Instagram',
+  generic: 'Custom sites'
+};
+
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -31,12 +51,22 @@ ChartJS.register(
 const Dashboard: React.FC = () => {
   const [summary, setSummary] = useState<GlobalSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
   const [exportLoading, setExportLoading] = useState(false);
   const [exportStartDate, setExportStartDate] = useState(getDaysAgo(30));
   const [exportEndDate, setExportEndDate] = useState(getDateString());
+  const [enabledPlatforms, setEnabledPlatforms] = useState<EnabledPlatforms>({});
+  const [view, setView] = useState<'overview' | 'history' | 'sessions'>('overview');
+  const [countingRules, setCountingRules] = useState<CountingRules | null>(null);
+  const [timeMetric, setTimeMetric] = useState<'playing' | 'attended' | 'content'>('playing');
+  const [dayStart, setDayStart] = useState<number | null>(null);
+  const [legacyUtcBefore, setLegacyUtcBefore] = useState<string | null>(null);
 
   useEffect(() => {
     fetchSummary();
+    fetchEnabledPlatforms();
+    fetchCountingRules();
+    fetchDayStartHour();
     const interval = setInterval(fetchSummary, 30000); // Update every 30 seconds
     return () => clearInterval(interval);
   }, []);
@@ -47,8 +77,13 @@ const Dashboard: React.FC = () => {
         type: 'GET_GLOBAL_SUMMARY'
       });
       
-      if (response) {
+      if (response?.error) {
+        // The background couldn't start (a failed upgrade, say) and has no data to give
+        setSummaryError(response.error);
+        setLoading(false);
+      } else if (response) {
         setSummary(response);
+        setSummaryError(null);
         setLoading(false);
       }
     } catch (error) {
@@ -57,6 +92,98 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const fetchEnabledPlatforms = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_ENABLED_PLATFORMS'
+      });
+
+      if (response && !response.error) {
+        setEnabledPlatforms(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch platform settings:', error);
+    }
+  };
+
+  const togglePlatform = async (platformId: string) => {
+    const enabled = enabledPlatforms[platformId] === false;
+    setEnabledPlatforms({ ...enabledPlatforms, [platformId]: enabled });
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_PLATFORM_ENABLED',
+        payload: { platformId, enabled }
+      });
+    } catch (error) {
+      console.error('Failed to update platform setting:', error);
+      fetchEnabledPlatforms();
+    }
+  };
+
+  const fetchCountingRules = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_COUNTING_RULES'
+      });
+
+      if (response && !response.error) {
+        setCountingRules(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch counting rules:', error);
+    }
+  };
+
+  const updateCountingRules = async (changes: Partial<CountingRules>) => {
+    if (!countingRules) return;
+
+    const nextRules = { ...countingRules, ...changes };
+    setCountingRules(nextRules);
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_COUNTING_RULES',
+        payload: nextRules
+      });
+    } catch (error) {
+      console.error('Failed to update counting rules:', error);
+      fetchCountingRules();
+    }
+  };
+
+  const fetchDayStartHour = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_DAY_START_HOUR'
+      });
+
+      if (response && !response.error) {
+        setDayStartHour(response.dayStartHour);
+        setDayStart(response.dayStartHour);
+        setLegacyUtcBefore(response.dateBucketing?.legacyUtcBefore || null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch day start hour:', error);
+    }
+  };
+
+  const updateDayStartHour = async (hour: number) => {
+    setDayStartHour(hour);
+    setDayStart(hour);
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_DAY_START_HOUR',
+        payload: hour
+      });
+      fetchSummary();
+    } catch (error) {
+      console.error('Failed to update day start hour:', error);
+      fetchDayStartHour();
+    }
+  };
+
   const handleExport = async (format: 'csv' | 'json') => {
     setExportLoading(true);
     try {
@@ -92,6 +219,21 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Playing time is wall-clock time while playing; attended time leaves out hidden tabs and
+  // idle users; content time is media time consumed (playback rate applied, seeks skipped)
+  const shortsTime = (stats: TabStats) =>
+    timeMetric === 'attended' ? stats.shortsAttendedMs
+      : timeMetric === 'content' ? stats.shortsContentMs
+      : stats.shortsMs;
+  const regularTime = (stats: TabStats) =>
+    timeMetric === 'attended' ? stats.regularAttendedMs
+      : timeMetric === 'content' ? stats.regularContentMs
+      : stats.regularMs;
+  const dayTime = (totals: { watchMs: number; attendedMs: number; contentMs: number }) =>
+    timeMetric === 'attended' ? totals.attendedMs
+      : timeMetric === 'content' ? totals.contentMs
+      : totals.watchMs;
+
   const renderOverviewCard = (title: string, stats: TabStats) => (
     <div className="overview-card">
       <div className="card-title">{title}</div>
@@ -99,12 +241,12 @@ const Dashboard: React.FC = () => {
         <div className="stat-group">
           <div className="stat-label">Shorts</div>
           <div className="stat-value shorts">{stats.shortsCount}</div>
-          <div className="stat-value shorts">{formatTime(stats.shortsMs)}</div>
+          <div className="stat-value shorts">{formatTime(shortsTime(stats))}</div>
         </div>
         <div className="stat-group">
           <div className="stat-label">Regular</div>
           <div className="stat-value regular">{stats.regularCount}</div>
-          <div className="stat-value regular">{formatTime(stats.regularMs)}</div>
+          <div className="stat-value regular">{formatTime(regularTime(stats))}</div>
         </div>
       </div>
     </div>
@@ -114,8 +256,8 @@ const Dashboard: React.FC = () => {
     if (!summary) return null;
 
     const platforms = Object.keys(summary.platforms);
-    const shortsData = platforms.map(platform => summary.platforms[platform as keyof typeof summary.platforms].shortsMs);
-    const regularData = platforms.map(platform => summary.platforms[platform as keyof typeof summary.platforms].regularMs);
+    const shortsData = platforms.map(platform => shortsTime(summary.platforms[platform as keyof typeof summary.platforms]));
+    const regularData = platforms.map(platform => regularTime(summary.platforms[platform as keyof typeof summary.platforms]));
 
     return {
       labels: platforms.map(p => p.charAt(0).toUpperCase() + p.slice(1)),
@@ -141,8 +283,8 @@ const Dashboard: React.FC = () => {
   const getCategoryDistributionData = () => {
     if (!summary) return null;
 
-    const totalShortsMs = summary.last30Days.shortsMs;
-    const totalRegularMs = summary.last30Days.regularMs;
+    const totalShortsMs = shortsTime(summary.last30Days);
+    const totalRegularMs = regularTime(summary.last30Days);
 
     return {
       labels: ['Shorts', 'Regular Videos'],
@@ -173,13 +315,13 @@ const Dashboard: React.FC = () => {
 
     return {
       labels: last30Days.map(day => {
-        const date = new Date(day.date);
+        const date = parseDateString(day.date);
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
       }),
       datasets: [
         {
           label: 'Shorts (minutes)',
-          data: last30Days.map(day => Math.round(day.shorts.watchMs / 60000)),
+          data: last30Days.map(day => Math.round(dayTime(day.shorts) / 60000)),
           borderColor: 'rgba(231, 76, 60, 1)',
           backgroundColor: 'rgba(231, 76, 60, 0.1)',
           fill: true,
@@ -187,7 +329,7 @@ const Dashboard: React.FC = () => {
         },
         {
           label: 'Regular Videos (minutes)',
-          data: last30Days.map(day => Math.round(day.regular.watchMs / 60000)),
+          data: last30Days.map(day => Math.round(dayTime(day.regular) / 60000)),
           borderColor: 'rgba(52, 152, 219, 1)',
           backgroundColor: 'rgba(52, 152, 219, 0.1)',
           fill: true,
@@ -197,6 +339,28 @@ const Dashboard: React.FC = () => {
     };
   };
 
+  const getAdTrendsData = () => {
+    if (!summary) return null;
+
+    const last30Days = summary.adTrends.slice(-30);
+
+    return {
+      labels: last30Days.map(day => {
+        const date = parseDateString(day.date);
+        return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      }),
+      datasets: [
+        {
+          label: 'Ads (minutes)',
+          data: last30Days.map(day => Math.round(day.adMs / 60000 * 10) / 10),
+          backgroundColor: 'rgba(241, 196, 15, 0.8)',
+          borderColor: 'rgba(241, 196, 15, 1)',
+          borderWidth: 1,
+        },
+      ],
+    };
+  };
+
   const chartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -235,7 +399,7 @@ const Dashboard: React.FC = () => {
       <div className="dashboard">
         <div className="dashboard-header">
           <h1 className="dashboard-title">Social Watch Tracker</h1>
-          <p className="dashboard-subtitle">No data available</p>
+          <p className="dashboard-subtitle">{summaryError || 'No data available'}</p>
         </div>
       </div>
     );
@@ -248,97 +412,342 @@ const Dashboard: React.FC = () => {
         <p className="dashboard-subtitle">Track your video consumption across social platforms</p>
       </div>
 
-      {/* Overview Section */}
-      <section className="overview-section">
-        <h2 className="section-title">Overview</h2>
-        <div className="overview-grid">
-          {renderOverviewCard('Today', summary.today)}
-          {renderOverviewCard('Yesterday', summary.yesterday)}
-          {renderOverviewCard('Last 7 Days', summary.last7Days)}
-          {renderOverviewCard('Last 30 Days', summary.last30Days)}
+      {/* View Navigation */}
+      <nav className="view-tabs">
+        <button
+          className={`view-tab ${view === 'overview' ? 'active' : ''}`}
+          onClick={() => setView('overview')}
+        >
+          Overview
+        </button>
+        <button
+          className={`view-tab ${view === 'history' ? 'active' : ''}`}
+          onClick={() => setView('history')}
+        >
+          History
+        </button>
+        <button
+          className={`view-tab ${view === 'sessions' ? 'active' : ''}`}
+          onClick={() => setView('sessions')}
+        >
+          Sessions
+        </button>
+      </nav>
+
+      {view === 'overview' && (
+        <div className="metric-toggle">
+          <label>
+            <input
+              type="radio"
+              checked={timeMetric === 'playing'}
+              onChange={() => setTimeMetric('playing')}
+            />
+            Playing time
+          </label>
+          <label>
+            <input
+              type="radio"
+              checked={timeMetric === 'attended'}
+              onChange={() => setTimeMetric('attended')}
+            />
+            Attended time
+          </label>
+          <label>
+            <input
+              type="radio"
+              checked={timeMetric === 'content'}
+              onChange={() => setTimeMetric('content')}
+            />
+            Content time
+          </label>
         </div>
-      </section>
-
-      {/* Charts Section */}
-      <section className="charts-section">
-        <h2 className="section-title">Analytics</h2>
-        <div className="charts-grid">
-          <div className="chart-container">
-            <h3 className="chart-title">Platform Breakdown (Last 30 Days)</h3>
-            <div className="chart-wrapper">
-              {getPlatformBreakdownData() && (
-                <Bar data={getPlatformBreakdownData()!} options={chartOptions} />
-              )}
+      )}
+
+      {view === 'history' && (
+        <section className="trends-section">
+          <h2 className="section-title">Watch History</h2>
+          <History />
+        </section>
+      )}
+
+      {view === 'sessions' && (
+        <section className="trends-section">
+          <h2 className="section-title">Viewing Sessions</h2>
+          <Sessions />
+        </section>
+      )}
+
+      {view === 'overview' && (
+        <>
+          {/* Overview Section */}
+          <section className="overview-section">
+            <h2 className="section-title">Overview</h2>
+            <div className="overview-grid">
+              {renderOverviewCard('Today', summary.today)}
+              {renderOverviewCard('Yesterday', summary.yesterday)}
+              {renderOverviewCard('Last 7 Days', summary.last7Days)}
+              {renderOverviewCard('Last 30 Days', summary.last30Days)}
             </div>
-          </div>
+          </section>
+
+          {/* Charts Section */}
+          <section className="charts-section">
+            <h2 className="section-title">Analytics</h2>
+            <div className="charts-grid">
+              <div className="chart-container">
+                <h3 className="chart-title">Platform Breakdown (Last 30 Days)</h3>
+                <div className="chart-wrapper">
+                  {getPlatformBreakdownData() && (
+                    <Bar data={getPlatformBreakdownData()!} options={chartOptions} />
+                  )}
+                </div>
+              </div>
           
-          <div className="chart-container">
-            <h3 className="chart-title">Content Distribution (Last 30 Days)</h3>
-            <div className="chart-wrapper">
-              {getCategoryDistributionData() && (
-                <Doughnut data={getCategoryDistributionData()!} options={doughnutOptions} />
-              )}
+              <div className="chart-container">
+                <h3 className="chart-title">Content Distribution (Last 30 Days)</h3>
+                <div className="chart-wrapper">
+                  {getCategoryDistributionData() && (
+                    <Doughnut data={getCategoryDistributionData()!} options={doughnutOptions} />
+                  )}
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-      </section>
-
-      {/* Trends Section */}
-      <section className="trends-section">
-        <h2 className="section-title">Trends</h2>
-        <div className="trends-container">
-          <h3 className="chart-title">Daily Watch Time (Last 30 Days)</h3>
-          <div className="trends-chart">
-            {getTrendsData() && (
-              <Line data={getTrendsData()!} options={chartOptions} />
-            )}
-          </div>
-        </div>
-      </section>
-
-      {/* Export Section */}
-      <section className="export-section">
-        <h2 className="section-title">Export Data</h2>
-        <div className="export-container">
-          <div className="export-controls">
-            <div className="date-input-group">
-              <label htmlFor="start-date">Start Date:</label>
-              <input
-                id="start-date"
-                type="date"
-                value={exportStartDate}
-                onChange={(e) => setExportStartDate(e.target.value)}
-              />
+          </section>
+
+          {/* Trends Section */}
+          <section className="trends-section">
+            <h2 className="section-title">Trends</h2>
+            <div className="trends-container">
+              <h3 className="chart-title">Daily Watch Time (Last 30 Days)</h3>
+              <div className="trends-chart">
+                {getTrendsData() && (
+                  <Line data={getTrendsData()!} options={chartOptions} />
+                )}
+              </div>
             </div>
-            <div className="date-input-group">
-              <label htmlFor="end-date">End Date:</label>
-              <input
-                id="end-date"
-                type="date"
-                value={exportEndDate}
-                onChange={(e) => setExportEndDate(e.target.value)}
-              />
+          </section>
+
+          {/* Heatmap Section */}
+          <section className="trends-section">
+            <h2 className="section-title">When You Watch</h2>
+            <Heatmap />
+          </section>
+
+          {/* Channels Section */}
+          <section className="trends-section">
+            <h2 className="section-title">Top Channels</h2>
+            <TopChannels />
+          </section>
+
+          {/* Ads Section */}
+          <section className="trends-section">
+            <h2 className="section-title">Ads</h2>
+            <div className="trends-container">
+              <h3 className="chart-title">
+                Time Spent Watching Ads (Last 30 Days): {formatTime(summary.adTrends.reduce((sum, day) => sum + day.adMs, 0))}
+                {' · '}
+                {summary.adTrends.reduce((sum, day) => sum + day.adCount, 0)} ads
+              </h3>
+              <div className="chart-wrapper">
+                {getAdTrendsData() && (
+                  <Bar data={getAdTrendsData()!} options={chartOptions} />
+                )}
+              </div>
             </div>
-            <div className="export-buttons">
-              <button
-                className="btn btn-primary"
-                onClick={() => handleExport('csv')}
-                disabled={exportLoading}
-              >
-                Export CSV
-              </button>
-              <button
-                className="btn btn-secondary"
-                onClick={() => handleExport('json')}
-                disabled={exportLoading}
-              >
-                Export JSON
-              </button>
+          </section>
+
+          {/* Settings Section */}
+          <section className="settings-section">
+            <h2 className="section-title">Tracked Platforms</h2>
+            <div className="settings-container">
+              {Object.entries(PLATFORM_LABELS).map(([platformId, label]) => (
+                <div className="setting-item" key={platformId}>
+                  <div>
+                    <div className="setting-label">{label}</div>
+                    <div className="setting-description">
+                      Track watch time and counts on {label}
+                    </div>
+                  </div>
+                  <div
+                    className={`toggle-switch ${enabledPlatforms[platformId] !== false ? 'active' : ''}`}
+                    onClick={() => togglePlatform(platformId)}
+                    role="switch"
+                    aria-checked={enabledPlatforms[platformId] !== false}
+                  />
+                </div>
+              ))}
             </div>
-          </div>
-          {exportLoading && <div className="loading">Preparing export...</div>}
-        </div>
-      </section>
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Daily Budgets</h2>
+            <BudgetsEditor />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Goals &amp; Streaks</h2>
+            <GoalsEditor />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Break Reminders</h2>
+            <BreakReminders />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Focus Schedules</h2>
+            <SchedulesEditor />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Counting Rules</h2>
+            {countingRules && (
+              <div className="settings-container">
+                <div className="setting-item">
+                  <div>
+                    <div className="setting-label">Minimum watch time (seconds)</div>
+                    <div className="setting-description">Count a view after this much watching. 0 disables it.</div>
+                  </div>
+                  <input
+                    className="setting-input"
+                    type="number"
+                    min={0}
+                    value={countingRules.minWatchSeconds}
+                    onChange={(e) => updateCountingRules({ minWatchSeconds: Math.max(0, Number(e.target.value)) })}
+                  />
+                </div>
+                <div className="setting-item">
+                  <div>
+                    <div className="setting-label">Minimum share watched (%)</div>
+                    <div className="setting-description">Count a view once this much of the video was watched. 0 disables it.</div>
+                  </div>
+                  <input
+                    className="setting-input"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={countingRules.minWatchPercent}
+                    onChange={(e) => updateCountingRules({
+                      minWatchPercent: Math.min(100, Math.max(0, Number(e.target.value)))
+                    })}
+                  />
+                </div>
+                <div className="setting-item">
+                  <div>
+                    <div className="setting-label">Count loop restarts</div>
+                    <div className="setting-description">Count a looping Short once when it restarts from the beginning</div>
+                  </div>
+                  <div
+                    className={`toggle-switch ${countingRules.countOnLoop ? 'active' : ''}`}
+                    onClick={() => updateCountingRules({ countOnLoop: !countingRules.countOnLoop })}
+                    role="switch"
+                    aria-checked={countingRules.countOnLoop}
+                  />
+                </div>
+              </div>
+            )}
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Day Boundaries</h2>
+            {dayStart !== null && (
+              <div className="settings-container">
+                <div className="setting-item">
+                  <div>
+                    <div className="setting-label">Day starts at</div>
+                    <div className="setting-description">
+                      Watching before this hour counts toward the previous day. Days follow your local time zone.
+                    </div>
+                  </div>
+                  <select
+                    className="setting-input"
+                    value={dayStart}
+                    onChange={(e) => updateDayStartHour(Number(e.target.value))}
+                  >
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+                    ))}
+                  </select>
+                </div>
+                {legacyUtcBefore && (
+                  <div className="setting-description">
+                    Data recorded before {legacyUtcBefore} was grouped by UTC day and keeps those boundaries.
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Custom Sites</h2>
+            <GenericSitesEditor />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Data Retention</h2>
+            <DataRetention />
+          </section>
+
+          <section className="settings-section">
+            <h2 className="section-title">Maintenance</h2>
+            <Maintenance />
+          </section>
+
+          {/* Export Section */}
+          <section className="export-section">
+            <h2 className="section-title">Export Data</h2>
+            <div className="export-container">
+              <div className="export-controls">
+                <div className="date-input-group">
+                  <label htmlFor="start-date">Start Date:</label>
+                  <input
+                    id="start-date"
+                    type="date"
+                    value={exportStartDate}
+                    onChange={(e) => setExportStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="date-input-group">
+                  <label htmlFor="end-date">End Date:</label>
+                  <input
+                    id="end-date"
+                    type="date"
+                    value={exportEndDate}
+                    onChange={(e) => setExportEndDate(e.target.value)}
+                  />
+                </div>
+                <div className="export-buttons">
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => handleExport('csv')}
+                    disabled={exportLoading}
+                  >
+                    Export CSV
+                  </button>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => handleExport('json')}
+                    disabled={exportLoading}
+                  >
+                    Export JSON
+                  </button>
+                </div>
+              </div>
+              {exportLoading && <div className="loading">Preparing export...</div>}
+            </div>
+          </section>
+
+          <section className="export-section">
+            <h2 className="section-title">Backup &amp; Restore</h2>
+            <BackupRestore />
+          </section>
+
+          <section className="export-section">
+            <h2 className="section-title">Import Watch History</h2>
+            <TakeoutImport />
+          </section>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { RetentionRun, RetentionSettings, StorageUsage } from '../types';
+
+const RAW_EVENT_DAYS = [7, 30, 90, 365];
+const ROLLUP_MONTHS = [3, 6, 12, 24];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeRun = (run: RetentionRun | null): string => {
+  if (!run) return 'Cleanup hasn\'t run yet';
+  return `Last cleanup ${new Date(run.timestamp).toLocaleString()}: ` +
+    `${run.eventsDeleted} events deleted, ${run.aggregatesRolledUp} daily aggregates rolled up`;
+};
+
+const DataRetention: React.FC = () => {
+  const [retention, setRetention] = useState<RetentionSettings | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [cleaning, setCleaning] = useState(false);
+
+  useEffect(() => {
+    fetchRetention();
+    fetchUsage();
+  }, []);
+
+  const fetchRetention = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_RETENTION'
+      });
+
+      if (response && !response.error) {
+        setRetention(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch retention settings:', error);
+    }
+  };
+
+  const fetchUsage = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_STORAGE_USAGE'
+      });
+
+      if (response && Array.isArray(response.stores)) {
+        setUsage(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch storage usage:', error);
+    }
+  };
+
+  const runCleanup = async (type: 'SET_RETENTION' | 'RUN_CLEANUP', payload?: RetentionSettings) => {
+    setCleaning(true);
+    try {
+      await chrome.runtime.sendMessage({ type, payload });
+      await fetchUsage();
+    } catch (error) {
+      console.error('Failed to apply retention policy:', error);
+      fetchRetention();
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  const updateRetention = (changes: Partial<RetentionSettings>) => {
+    if (!retention) return;
+
+    const nextRetention = { ...retention, ...changes };
+    setRetention(nextRetention);
+    runCleanup('SET_RETENTION', nextRetention);
+  };
+
+  const handleRawEventsChange = (value: string) => {
+    if (value === 'none' || value === 'forever') {
+      updateRetention({ rawEvents: value });
+    } else {
+      updateRetention({ rawEvents: 'days', rawEventDays: Number(value) });
+    }
+  };
+
+  if (!retention) return null;
+
+  const totalRecordBytes = usage ? usage.stores.reduce((sum, store) => sum + store.approxBytes, 0) : 0;
+
+  return (
+    <div className="settings-container">
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Keep raw events</div>
+          <div className="setting-description">
+            Every playback update, used to rebuild aggregates. Daily totals are kept either way.
+          </div>
+        </div>
+        <select
+          value={retention.rawEvents === 'days' ? String(retention.rawEventDays) : retention.rawEvents}
+          onChange={(e) => handleRawEventsChange(e.target.value)}
+        >
+          <option value="none">Don't store</option>
+          {RAW_EVENT_DAYS.map(days => <option key={days} value={days}>{days} days</option>)}
+          <option value="forever">Forever</option>
+        </select>
+      </div>
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Roll up daily totals after</div>
+          <div className="setting-description">
+            Older days are merged into weekly and monthly totals and no longer show up day by day
+          </div>
+        </div>
+        <select
+          value={retention.rollupAfterMonths}
+          onChange={(e) => updateRetention({ rollupAfterMonths: Number(e.target.value) })}
+        >
+          <option value={0}>Never</option>
+          {ROLLUP_MONTHS.map(months => <option key={months} value={months}>{months} months</option>)}
+        </select>
+      </div>
+      <div className="setting-item">
+        <div>
+          <div className="setting-label">Storage</div>
+          <div className="setting-description">
+            {usage ? describeRun(usage.lastCleanup) : 'Measuring...'}
+          </div>
+        </div>
+        <button className="btn btn-secondary" onClick={() => runCleanup('RUN_CLEANUP')} disabled={cleaning}>
+          {cleaning ? 'Cleaning up...' : 'Clean up now'}
+        </button>
+      </div>
+
+      {usage && (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Store</th>
+              <th>Records</th>
+              <th>Approx. Size</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.stores.map(store => (
+              <tr key={store.name}>
+                <td>{store.name}</td>
+                <td>{store.records.toLocaleString()}</td>
+                <td>{formatBytes(store.approxBytes)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td>Total</td>
+              <td>{usage.stores.reduce((sum, store) => sum + store.records, 0).toLocaleString()}</td>
+              <td>
+                {formatBytes(totalRecordBytes)}
+                {usage.usageBytes !== undefined && ` (${formatBytes(usage.usageBytes)} on disk)`}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default DataRetention;
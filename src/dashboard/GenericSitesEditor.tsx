@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { Category, GenericCategoryRule, GenericSiteConfig } from '../types';
+import { generateEventId, matchPatternToRegExp } from '../utils';
+
+const CATEGORIES: Category[] = ['regular', 'shorts', 'reel', 'tiktok'];
+
+const createEmptyConfig = (): GenericSiteConfig => ({
+  id: generateEventId(),
+  name: '',
+  enabled: true,
+  urlPattern: 'https://*.example.com/*',
+  videoSelector: 'video',
+  videoIdRegex: '',
+  titleSelector: 'h1',
+  categoryRules: [],
+  defaultCategory: 'regular'
+});
+
+const validateConfig = (config: GenericSiteConfig): string | null => {
+  if (!config.name.trim()) return 'Name is required';
+  if (!matchPatternToRegExp(config.urlPattern)) return 'URL pattern must be a match pattern like https://*.example.com/*';
+
+  for (const [label, selector] of [['Video selector', config.videoSelector], ['Title selector', config.titleSelector]]) {
+    if (!selector) continue;
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch (error) {
+      return `${label} is not a valid CSS selector`;
+    }
+  }
+
+  for (const source of [config.videoIdRegex, ...config.categoryRules.map(rule => rule.urlRegex || '')]) {
+    try {
+      new RegExp(source);
+    } catch (error) {
+      return `Invalid regular expression: ${source}`;
+    }
+  }
+
+  if (!config.videoIdRegex) return 'Video ID regex is required';
+  return null;
+};
+
+const GenericSitesEditor: React.FC = () => {
+  const [sites, setSites] = useState<GenericSiteConfig[]>([]);
+  const [draft, setDraft] = useState<GenericSiteConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSites();
+  }, []);
+
+  const fetchSites = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_GENERIC_SITES'
+      });
+
+      if (Array.isArray(response)) {
+        setSites(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch generic sites:', error);
+    }
+  };
+
+  const saveSites = async (nextSites: GenericSiteConfig[]) => {
+    setSites(nextSites);
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_GENERIC_SITES',
+        payload: nextSites
+      });
+    } catch (error) {
+      console.error('Failed to save generic sites:', error);
+      fetchSites();
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const validationError = validateConfig(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    // Must run straight from the click handler to keep the user gesture
+    const granted = await chrome.permissions.request({ origins: [draft.urlPattern] });
+    if (!granted) {
+      setError(`Access to ${draft.urlPattern} was not granted`);
+      return;
+    }
+
+    const exists = sites.some(site => site.id === draft.id);
+    await saveSites(exists ? sites.map(site => site.id === draft.id ? draft : site) : [...sites, draft]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    await saveSites(sites.filter(site => site.id !== id));
+  };
+
+  const handleToggle = async (id: string) => {
+    await saveSites(sites.map(site => site.id === id ? { ...site, enabled: !site.enabled } : site));
+  };
+
+  const updateDraft = (changes: Partial<GenericSiteConfig>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const updateRule = (index: number, changes: Partial<GenericCategoryRule>) => {
+    if (!draft) return;
+    updateDraft({
+      categoryRules: draft.categoryRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const renderDraft = (config: GenericSiteConfig) => (
+    <div className="site-form">
+      <div className="form-row">
+        <label>Name</label>
+        <input value={config.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+      </div>
+      <div className="form-row">
+        <label>URL pattern</label>
+        <input value={config.urlPattern} onChange={(e) => updateDraft({ urlPattern: e.target.value })} />
+      </div>
+      <div className="form-row">
+        <label>Video selector</label>
+        <input value={config.videoSelector} onChange={(e) => updateDraft({ videoSelector: e.target.value })} />
+      </div>
+      <div className="form-row">
+        <label>Video ID regex</label>
+        <input
+          value={config.videoIdRegex}
+          placeholder="/videos/(\d+)"
+          onChange={(e) => updateDraft({ videoIdRegex: e.target.value })}
+        />
+      </div>
+      <div className="form-row">
+        <label>Title selector</label>
+        <input value={config.titleSelector} onChange={(e) => updateDraft({ titleSelector: e.target.value })} />
+      </div>
+      <div className="form-row">
+        <label>Default category</label>
+        <select
+          value={config.defaultCategory}
+          onChange={(e) => updateDraft({ defaultCategory: e.target.value as Category })}
+        >
+          {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+      </div>
+
+      <div className="form-row">
+        <label>Category rules</label>
+        <div className="rule-list">
+          {config.categoryRules.map((rule, index) => (
+            <div className="rule-row" key={index}>
+              <input
+                value={rule.urlRegex || ''}
+                placeholder="URL regex (optional)"
+                onChange={(e) => updateRule(index, { urlRegex: e.target.value || undefined })}
+              />
+              <input
+                type="number"
+                value={rule.maxDurationSeconds ?? ''}
+                placeholder="Max seconds (optional)"
+                onChange={(e) => updateRule(index, {
+                  maxDurationSeconds: e.target.value ? Number(e.target.value) : undefined
+                })}
+              />
+              <select
+                value={rule.category}
+                onChange={(e) => updateRule(index, { category: e.target.value as Category })}
+              >
+                {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+              <button
+                className="btn btn-secondary"
+                onClick={() => updateDraft({ categoryRules: config.categoryRules.filter((_, i) => i !== index) })}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            className="btn btn-secondary"
+            onClick={() => updateDraft({ categoryRules: [...config.categoryRules, { category: 'shorts' }] })}
+          >
+            Add rule
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="form-error">{error}</div>}
+
+      <div className="export-buttons">
+        <button className="btn btn-primary" onClick={handleSaveDraft}>Save site</button>
+        <button className="btn btn-secondary" onClick={() => { setDraft(null); setError(null); }}>Cancel</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="settings-container">
+      {sites.length === 0 && !draft && (
+        <div className="setting-description">No custom sites yet.</div>
+      )}
+
+      {sites.map(site => (
+        <div className="setting-item" key={site.id}>
+          <div>
+            <div className="setting-label">{site.name}</div>
+            <div className="setting-description">{site.urlPattern}</div>
+          </div>
+          <div className="export-buttons">
+            <button className="btn btn-secondary" onClick={() => setDraft({ ...site })}>Edit</button>
+            <button className="btn btn-secondary" onClick={() => handleDelete(site.id)}>Delete</button>
+            <div
+              className={`toggle-switch ${site.enabled ? 'active' : ''}`}
+              onClick={() => handleToggle(site.id)}
+              role="switch"
+              aria-checked={site.enabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      {draft ? renderDraft(draft) : (
+        <div className="export-buttons">
+          <button className="btn btn-primary" onClick={() => setDraft(createEmptyConfig())}>
+            Add site
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenericSitesEditor;
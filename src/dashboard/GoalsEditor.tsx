@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { Category, Goal, GoalStreak, Platform } from '../types';
+import { generateEventId } from '../utils';
+import { getGoalLabel } from '../goals';
+
+const PLATFORMS: Array<Platform | 'all'> = ['all', 'youtube', 'tiktok', 'instagram', 'generic'];
+const CATEGORIES: Array<Category | 'all'> = ['all', 'shorts', 'regular', 'reel', 'tiktok'];
+
+const GoalsEditor: React.FC = () => {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [streaks, setStreaks] = useState<GoalStreak[]>([]);
+
+  useEffect(() => {
+    fetchGoals();
+    fetchStreaks();
+  }, []);
+
+  const fetchGoals = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_GOALS'
+      });
+
+      if (Array.isArray(response)) {
+        setGoals(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch goals:', error);
+    }
+  };
+
+  const fetchStreaks = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_GOAL_STREAKS'
+      });
+
+      if (Array.isArray(response)) {
+        setStreaks(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch goal streaks:', error);
+    }
+  };
+
+  const saveGoals = async (nextGoals: Goal[]) => {
+    setGoals(nextGoals);
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_GOALS',
+        payload: nextGoals
+      });
+      fetchStreaks();
+    } catch (error) {
+      console.error('Failed to save goals:', error);
+      fetchGoals();
+    }
+  };
+
+  const updateGoal = (id: string, changes: Partial<Goal>) => {
+    saveGoals(goals.map(goal => goal.id === id ? { ...goal, ...changes } : goal));
+  };
+
+  const addGoal = () => {
+    saveGoals([...goals, {
+      id: generateEventId(),
+      metric: 'maxMinutes',
+      platform: 'all',
+      category: 'shorts',
+      threshold: 30,
+      enabled: true,
+      createdAt: Date.now()
+    }]);
+  };
+
+  const describeStreak = (goal: Goal): string => {
+    const streak = streaks.find(s => s.goalId === goal.id);
+    if (!goal.enabled || !streak) return getGoalLabel(goal);
+
+    const today = goal.metric === 'maxMinutes'
+      ? `${Math.round(streak.todayValue)} min`
+      : `${Math.round(streak.todayValue)}%`;
+    return `Current streak ${streak.currentStreak} days · Best ${streak.bestStreak} days · ` +
+      `Today ${today} (${streak.metToday ? 'on track' : 'missed'})`;
+  };
+
+  return (
+    <div className="settings-container">
+      {goals.length === 0 && (
+        <div className="setting-description">No goals yet. Add one to start a streak.</div>
+      )}
+
+      {goals.map(goal => (
+        <div className="setting-item" key={goal.id}>
+          <div>
+            <div className="rule-row">
+              <select
+                value={goal.metric}
+                onChange={(e) => updateGoal(goal.id, { metric: e.target.value as Goal['metric'] })}
+              >
+                <option value="maxMinutes">Minutes a day under</option>
+                <option value="maxShare">Share of watch time under (%)</option>
+              </select>
+              <input
+                className="setting-input"
+                type="number"
+                min={1}
+                value={goal.threshold}
+                onChange={(e) => updateGoal(goal.id, { threshold: Math.max(1, Number(e.target.value)) })}
+              />
+              <select
+                value={goal.category}
+                onChange={(e) => updateGoal(goal.id, { category: e.target.value as Goal['category'] })}
+              >
+                {CATEGORIES.map(c => <option key={c} value={c}>{c === 'all' ? 'All categories' : c}</option>)}
+              </select>
+              <select
+                value={goal.platform}
+                onChange={(e) => updateGoal(goal.id, { platform: e.target.value as Goal['platform'] })}
+              >
+                {PLATFORMS.map(p => <option key={p} value={p}>{p === 'all' ? 'All platforms' : p}</option>)}
+              </select>
+            </div>
+            <div className="setting-description">{describeStreak(goal)}</div>
+          </div>
+          <div className="export-buttons">
+            <button
+              className="btn btn-secondary"
+              onClick={() => saveGoals(goals.filter(g => g.id !== goal.id))}
+            >
+              Delete
+            </button>
+            <div
+              className={`toggle-switch ${goal.enabled ? 'active' : ''}`}
+              onClick={() => updateGoal(goal.id, { enabled: !goal.enabled })}
+              role="switch"
+              aria-checked={goal.enabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="export-buttons">
+        <button className="btn btn-primary" onClick={addGoal}>Add goal</button>
+      </div>
+    </div>
+  );
+};
+
+export default GoalsEditor;
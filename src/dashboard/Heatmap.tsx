@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Category, HourlyHeatmap, Platform } from '../types';
+import { formatTime, getDateString, getDaysAgo } from '../utils';
+
+const PLATFORMS: Platform[] = ['youtube', 'tiktok', 'instagram', 'generic'];
+const CATEGORIES: Category[] = ['regular', 'shorts', 'reel', 'tiktok'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const Heatmap: React.FC = () => {
+  const [heatmap, setHeatmap] = useState<HourlyHeatmap | null>(null);
+  const [startDate, setStartDate] = useState(getDaysAgo(30));
+  const [endDate, setEndDate] = useState(getDateString());
+  const [platform, setPlatform] = useState<Platform | ''>('');
+  const [category, setCategory] = useState<Category | ''>('');
+
+  useEffect(() => {
+    fetchHeatmap();
+  }, [startDate, endDate, platform, category]);
+
+  const fetchHeatmap = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_HOURLY_HEATMAP',
+        payload: {
+          range: { start: startDate, end: endDate },
+          platform: platform || undefined,
+          category: category || undefined
+        }
+      });
+
+      if (response && Array.isArray(response.cells)) {
+        setHeatmap(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch heatmap:', error);
+    }
+  };
+
+  return (
+    <div className="export-container">
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="heatmap-start-date">Start Date:</label>
+          <input
+            id="heatmap-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="heatmap-end-date">End Date:</label>
+          <input
+            id="heatmap-end-date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="heatmap-platform">Platform:</label>
+          <select
+            id="heatmap-platform"
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value as Platform | '')}
+          >
+            <option value="">All</option>
+            {PLATFORMS.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="heatmap-category">Category:</label>
+          <select
+            id="heatmap-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as Category | '')}
+          >
+            <option value="">All</option>
+            {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {heatmap && (
+        <div className="heatmap">
+          <div className="heatmap-label" />
+          {HOURS.map(hour => (
+            <div key={hour} className="heatmap-label">{hour % 3 === 0 ? hour : ''}</div>
+          ))}
+
+          {WEEKDAYS.map((weekday, day) => (
+            <React.Fragment key={weekday}>
+              <div className="heatmap-label">{weekday}</div>
+              {HOURS.map(hour => {
+                const ms = heatmap.cells[day][hour];
+                return (
+                  <div
+                    key={hour}
+                    className="heatmap-cell"
+                    style={{ opacity: heatmap.maxMs > 0 ? 0.08 + 0.92 * ms / heatmap.maxMs : 0.08 }}
+                    title={`${weekday} ${hour}:00 – ${formatTime(ms)}`}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Heatmap;
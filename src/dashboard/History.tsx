@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Category, Platform, VideoHistoryPage } from '../types';
+import { formatTime } from '../utils';
+
+const PAGE_SIZE = 25;
+const PLATFORMS: Platform[] = ['youtube', 'tiktok', 'instagram', 'generic'];
+const CATEGORIES: Category[] = ['regular', 'shorts', 'reel', 'tiktok'];
+
+const History: React.FC = () => {
+  const [history, setHistory] = useState<VideoHistoryPage>({ videos: [], total: 0 });
+  const [search, setSearch] = useState('');
+  const [platform, setPlatform] = useState<Platform | ''>('');
+  const [category, setCategory] = useState<Category | ''>('');
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [search, platform, category, page]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_VIDEO_HISTORY',
+        payload: {
+          search: search || undefined,
+          platform: platform || undefined,
+          category: category || undefined,
+          page,
+          pageSize: PAGE_SIZE
+        }
+      });
+
+      if (response && Array.isArray(response.videos)) {
+        setHistory(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(history.total / PAGE_SIZE));
+
+  return (
+    <div className="export-container">
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="history-search">Search:</label>
+          <input
+            id="history-search"
+            type="search"
+            value={search}
+            placeholder="Title, channel or video ID"
+            onChange={(e) => { setSearch(e.target.value); setPage(0); }}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="history-platform">Platform:</label>
+          <select
+            id="history-platform"
+            value={platform}
+            onChange={(e) => { setPlatform(e.target.value as Platform | ''); setPage(0); }}
+          >
+            <option value="">All</option>
+            {PLATFORMS.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="history-category">Category:</label>
+          <select
+            id="history-category"
+            value={category}
+            onChange={(e) => { setCategory(e.target.value as Category | ''); setPage(0); }}
+          >
+            <option value="">All</option>
+            {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading history...</div>
+      ) : history.videos.length === 0 ? (
+        <div className="setting-description">No videos match these filters.</div>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Title</th>
+              <th>Platform</th>
+              <th>Category</th>
+              <th>Last Watched</th>
+              <th>Watch Time</th>
+              <th>Reached</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.videos.map(video => (
+              <tr key={video.videoId}>
+                <td>
+                  <a href={video.url} target="_blank" rel="noreferrer">{video.title || video.videoId}</a>
+                  {video.channelName && <div className="setting-description">{video.channelName}</div>}
+                </td>
+                <td>{video.platform}</td>
+                <td>{video.category}</td>
+                <td>{new Date(video.lastSeen).toLocaleString()}</td>
+                <td>{video.imported && video.totalWatchedMs === 0 ? 'Imported' : formatTime(video.totalWatchedMs)}</td>
+                <td>
+                  {formatTime(video.maxPositionMs)}
+                  {video.durationMs ? ` / ${formatTime(video.durationMs)}` : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="pagination">
+        <button className="btn btn-secondary" onClick={() => setPage(page - 1)} disabled={page === 0}>
+          Previous
+        </button>
+        <span>Page {page + 1} of {pageCount} ({history.total} videos)</span>
+        <button className="btn btn-secondary" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AggregateTotals, RecomputeResult } from '../types';
+import { formatTime, getDateString, getDaysAgo } from '../utils';
+
+const describeTotals = (totals: AggregateTotals | null): string =>
+  totals ? `${formatTime(totals.watchMs)} · ${totals.count} views` : '—';
+
+const Maintenance: React.FC = () => {
+  const [startDate, setStartDate] = useState(getDaysAgo(7));
+  const [endDate, setEndDate] = useState(getDateString());
+  const [result, setResult] = useState<RecomputeResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recompute = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Replace the daily aggregates in this range with ones rebuilt from raw events?')) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'RECOMPUTE_AGGREGATES',
+        payload: { range: { start: startDate, end: endDate }, dryRun }
+      });
+
+      if (response && !response.error) {
+        setResult(response);
+      } else {
+        setError(response?.error || 'Recompute failed');
+      }
+    } catch (error) {
+      console.error('Failed to recompute aggregates:', error);
+      setError('Recompute failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeResult = (result: RecomputeResult): string => {
+    const range = `${result.range.start} – ${result.range.end}`;
+    if (result.range.start > result.range.end) {
+      return 'Raw events for this range have already been cleaned up or rolled up.';
+    }
+    if (result.applied) {
+      return `Rebuilt ${range} from ${result.eventsReplayed} events: ${result.changes.length} aggregates changed.`;
+    }
+    return result.changes.length > 0
+      ? `Replaying ${result.eventsReplayed} events for ${range} would change ${result.changes.length} aggregates:`
+      : `Replaying ${result.eventsReplayed} events for ${range} matches the stored aggregates.`;
+  };
+
+  return (
+    <div className="export-container">
+      <div className="setting-description">
+        Rebuild the daily totals from the raw events, e.g. after a tracking bug or a change to the counting
+        rules. Only days whose raw events are still kept (see Data Retention) and that haven't been rolled
+        up can be rebuilt.
+      </div>
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="recompute-start-date">Start Date:</label>
+          <input
+            id="recompute-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="recompute-end-date">End Date:</label>
+          <input
+            id="recompute-end-date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+        <div className="export-buttons">
+          <button className="btn btn-secondary" onClick={() => recompute(true)} disabled={loading}>
+            Preview changes
+          </button>
+          <button className="btn btn-primary" onClick={() => recompute(false)} disabled={loading}>
+            Rebuild aggregates
+          </button>
+        </div>
+      </div>
+
+      {loading && <div className="loading">Replaying events...</div>}
+      {error && <div className="form-error">{error}</div>}
+      {result && <div className="setting-description">{describeResult(result)}</div>}
+
+      {result && !result.applied && result.changes.length > 0 && (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Platform</th>
+              <th>Category</th>
+              <th>Stored</th>
+              <th>Rebuilt</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.changes.map(change => (
+              <tr key={change.key}>
+                <td>{change.date}</td>
+                <td>{change.platform}</td>
+                <td>{change.category}</td>
+                <td>{describeTotals(change.before)}</td>
+                <td>{describeTotals(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default Maintenance;
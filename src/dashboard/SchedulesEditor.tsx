@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Category, FocusSchedule, Platform, ScheduleCompliance } from '../types';
+import { formatTime, generateEventId, getDateString, getDaysAgo } from '../utils';
+
+const PLATFORMS: Array<Platform | 'all'> = ['all', 'youtube', 'tiktok', 'instagram', 'generic'];
+const CATEGORIES: Array<Category | 'all'> = ['all', 'shorts', 'regular', 'reel', 'tiktok'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const createEmptySchedule = (): FocusSchedule => ({
+  id: generateEventId(),
+  name: '',
+  enabled: true,
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00',
+  platform: 'all',
+  category: 'shorts',
+  mode: 'block',
+  budgetMinutes: 15
+});
+
+const describeSchedule = (schedule: FocusSchedule): string => {
+  const days = schedule.days.slice().sort().map(day => WEEKDAYS[day]).join(', ');
+  const target = `${schedule.platform === 'all' ? 'all platforms' : schedule.platform} · ${schedule.category === 'all' ? 'everything' : schedule.category}`;
+  const rule = schedule.mode === 'block' ? 'blocked' : `${schedule.budgetMinutes} min allowed`;
+  return `${days} ${schedule.start}–${schedule.end}: ${target} ${rule}`;
+};
+
+const SchedulesEditor: React.FC = () => {
+  const [schedules, setSchedules] = useState<FocusSchedule[]>([]);
+  const [compliance, setCompliance] = useState<ScheduleCompliance[]>([]);
+  const [draft, setDraft] = useState<FocusSchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSchedules();
+    fetchCompliance();
+  }, []);
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_SCHEDULES'
+      });
+
+      if (Array.isArray(response)) {
+        setSchedules(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    }
+  };
+
+  const fetchCompliance = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_SCHEDULE_COMPLIANCE',
+        payload: { range: { start: getDaysAgo(30), end: getDateString() } }
+      });
+
+      if (Array.isArray(response)) {
+        setCompliance(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule compliance:', error);
+    }
+  };
+
+  const saveSchedules = async (nextSchedules: FocusSchedule[]) => {
+    setSchedules(nextSchedules);
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_SCHEDULES',
+        payload: nextSchedules
+      });
+      fetchCompliance();
+    } catch (error) {
+      console.error('Failed to save schedules:', error);
+      fetchSchedules();
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (draft.days.length === 0) {
+      setError('Pick at least one day');
+      return;
+    }
+    if (draft.start === draft.end) {
+      setError('Start and end must differ');
+      return;
+    }
+
+    const exists = schedules.some(schedule => schedule.id === draft.id);
+    await saveSchedules(exists ? schedules.map(schedule => schedule.id === draft.id ? draft : schedule) : [...schedules, draft]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<FocusSchedule>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const toggleDraftDay = (day: number) => {
+    if (!draft) return;
+    updateDraft({ days: draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day] });
+  };
+
+  const renderDraft = (schedule: FocusSchedule) => (
+    <div className="site-form">
+      <div className="form-row">
+        <label>Name</label>
+        <input value={schedule.name} placeholder="Work hours" onChange={(e) => updateDraft({ name: e.target.value })} />
+      </div>
+      <div className="form-row">
+        <label>Days</label>
+        <div className="rule-row">
+          {WEEKDAYS.map((weekday, day) => (
+            <label key={weekday} className="weekday-option">
+              <input type="checkbox" checked={schedule.days.includes(day)} onChange={() => toggleDraftDay(day)} />
+              {weekday}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="form-row">
+        <label>Time</label>
+        <div className="rule-row">
+          <input type="time" value={schedule.start} onChange={(e) => updateDraft({ start: e.target.value })} />
+          <input type="time" value={schedule.end} onChange={(e) => updateDraft({ end: e.target.value })} />
+        </div>
+      </div>
+      <div className="form-row">
+        <label>Applies to</label>
+        <div className="rule-row">
+          <select
+            value={schedule.platform}
+            onChange={(e) => updateDraft({ platform: e.target.value as FocusSchedule['platform'] })}
+          >
+            {PLATFORMS.map(p => <option key={p} value={p}>{p === 'all' ? 'All platforms' : p}</option>)}
+          </select>
+          <select
+            value={schedule.category}
+            onChange={(e) => updateDraft({ category: e.target.value as FocusSchedule['category'] })}
+          >
+            {CATEGORIES.map(c => <option key={c} value={c}>{c === 'all' ? 'All categories' : c}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="form-row">
+        <label>Rule</label>
+        <div className="rule-row">
+          <select
+            value={schedule.mode}
+            onChange={(e) => updateDraft({ mode: e.target.value as FocusSchedule['mode'] })}
+          >
+            <option value="block">Block</option>
+            <option value="budget">Strict budget</option>
+          </select>
+          {schedule.mode === 'budget' && (
+            <input
+              type="number"
+              min={1}
+              value={schedule.budgetMinutes || 0}
+              onChange={(e) => updateDraft({ budgetMinutes: Math.max(1, Number(e.target.value)) })}
+            />
+          )}
+        </div>
+      </div>
+
+      {error && <div className="form-error">{error}</div>}
+
+      <div className="export-buttons">
+        <button className="btn btn-primary" onClick={handleSaveDraft}>Save schedule</button>
+        <button className="btn btn-secondary" onClick={() => { setDraft(null); setError(null); }}>Cancel</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="settings-container">
+      {schedules.length === 0 && !draft && (
+        <div className="setting-description">No focus schedules yet.</div>
+      )}
+
+      {schedules.map(schedule => (
+        <div className="setting-item" key={schedule.id}>
+          <div>
+            <div className="setting-label">{schedule.name}</div>
+            <div className="setting-description">{describeSchedule(schedule)}</div>
+          </div>
+          <div className="export-buttons">
+            <button className="btn btn-secondary" onClick={() => setDraft({ ...schedule })}>Edit</button>
+            <button
+              className="btn btn-secondary"
+              onClick={() => saveSchedules(schedules.filter(s => s.id !== schedule.id))}
+            >
+              Delete
+            </button>
+            <div
+              className={`toggle-switch ${schedule.enabled ? 'active' : ''}`}
+              onClick={() => saveSchedules(schedules.map(s => s.id === schedule.id ? { ...s, enabled: !s.enabled } : s))}
+              role="switch"
+              aria-checked={schedule.enabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      {draft ? renderDraft(draft) : (
+        <div className="export-buttons">
+          <button className="btn btn-primary" onClick={() => setDraft(createEmptySchedule())}>
+            Add schedule
+          </button>
+        </div>
+      )}
+
+      {compliance.some(entry => entry.daysActive > 0) && (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Schedule (last 30 days)</th>
+              <th>Days Kept</th>
+              <th>Watched During Window</th>
+              <th>Overrides</th>
+            </tr>
+          </thead>
+          <tbody>
+            {compliance.filter(entry => entry.daysActive > 0).map(entry => (
+              <tr key={entry.scheduleId}>
+                <td>{entry.name}</td>
+                <td>{entry.daysCompliant} / {entry.daysActive}</td>
+                <td>{formatTime(entry.watchMs)}</td>
+                <td>{entry.overrides}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SchedulesEditor;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { Category, ViewingSession, ViewingSessionSummary } from '../types';
+import { formatTime, getDateString, getDaysAgo, getDayStartTime, parseDateString, shiftDateString } from '../utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  regular: 'Regular',
+  shorts: 'Shorts',
+  reel: 'Reels',
+  tiktok: 'TikTok'
+};
+
+// Every day from start to end, newest first
+const getDatesInRange = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  for (let date = end; date >= start && dates.length < 366; ) {
+    dates.push(date);
+    date = shiftDateString(date, -1);
+  }
+  return dates;
+};
+
+const describeSession = (session: ViewingSession): string => {
+  const mix = Object.entries(session.categoryMs)
+    .sort(([, a], [, b]) => (b || 0) - (a || 0))
+    .map(([category, ms]) => `${CATEGORY_LABELS[category as Category]} ${Math.round((ms || 0) / session.totalMs * 100)}%`)
+    .join(', ');
+
+  return [
+    `${new Date(session.start).toLocaleTimeString()} – ${new Date(session.end).toLocaleTimeString()}`,
+    `${formatTime(session.totalMs)} across ${session.videoIds.length} videos`,
+    mix
+  ].join('\n');
+};
+
+const Sessions: React.FC = () => {
+  const [summary, setSummary] = useState<ViewingSessionSummary | null>(null);
+  const [startDate, setStartDate] = useState(getDaysAgo(6));
+  const [endDate, setEndDate] = useState(getDateString());
+  const [gapMinutes, setGapMinutes] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchGap();
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [startDate, endDate]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_VIEWING_SESSIONS',
+        payload: { range: { start: startDate, end: endDate } }
+      });
+
+      if (response && Array.isArray(response.sessions)) {
+        setSummary(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch viewing sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchGap = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_SESSION_GAP'
+      });
+
+      if (typeof response === 'number') {
+        setGapMinutes(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch session gap:', error);
+    }
+  };
+
+  const updateGap = async (minutes: number) => {
+    setGapMinutes(minutes);
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'SET_SESSION_GAP',
+        payload: minutes
+      });
+    } catch (error) {
+      console.error('Failed to update session gap:', error);
+      fetchGap();
+    }
+  };
+
+  const renderDay = (date: string) => {
+    const dayStart = getDayStartTime(date);
+    const daySessions = (summary?.sessions || []).filter(session => getDateString(new Date(session.start)) === date);
+
+    return (
+      <div className="timeline-row" key={date}>
+        <div className="timeline-label">{parseDateString(date).toLocaleDateString()}</div>
+        <div className="timeline-track">
+          {daySessions.map(session => {
+            const left = (session.start - dayStart) / DAY_MS * 100;
+            // Sessions running past the end of the day are clipped to the row
+            const width = Math.min(100 - left, (session.end - session.start) / DAY_MS * 100);
+
+            return (
+              <div
+                key={session.id}
+                className={`timeline-session ${(session.categoryMs.regular || 0) * 2 > session.totalMs ? 'regular' : 'shorts'}`}
+                style={{ left: `${left}%`, width: `${width}%` }}
+                title={describeSession(session)}
+              />
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="export-container">
+      <div className="overview-grid">
+        <div className="overview-card">
+          <div className="card-title">Longest Binge This Week</div>
+          <div className="stat-group">
+            <div className="stat-value">{formatTime(summary?.longestThisWeekMs || 0)}</div>
+          </div>
+        </div>
+        <div className="overview-card">
+          <div className="card-title">Average Session Length</div>
+          <div className="stat-group">
+            <div className="stat-value">{formatTime(summary?.averageMs || 0)}</div>
+          </div>
+        </div>
+        <div className="overview-card">
+          <div className="card-title">Sessions</div>
+          <div className="stat-group">
+            <div className="stat-value">{summary?.sessions.length || 0}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="sessions-start-date">Start Date:</label>
+          <input
+            id="sessions-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="sessions-end-date">End Date:</label>
+          <input
+            id="sessions-end-date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+        {gapMinutes !== null && (
+          <div className="date-input-group">
+            <label htmlFor="sessions-gap">New session after (minutes):</label>
+            <input
+              id="sessions-gap"
+              type="number"
+              min={1}
+              value={gapMinutes}
+              onChange={(e) => updateGap(Math.max(1, Number(e.target.value)))}
+            />
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading sessions...</div>
+      ) : (
+        <div className="timeline">
+          {getDatesInRange(startDate, endDate).map(renderDay)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Sessions;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { TakeoutImportResult, TakeoutParseResult } from '../types';
+import { parseTakeoutFile } from '../takeout';
+
+const TakeoutImport: React.FC = () => {
+  const [parsed, setParsed] = useState<TakeoutParseResult | null>(null);
+  const [result, setResult] = useState<TakeoutImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setParsed(null);
+    setResult(null);
+    setError(null);
+    if (!file) return;
+
+    try {
+      const parseResult = parseTakeoutFile(file.name, await file.text());
+      if (parseResult.entries.length === 0) {
+        setError('No watched videos found in this file');
+      } else {
+        setParsed(parseResult);
+      }
+    } catch (error) {
+      console.error('Failed to read watch history:', error);
+      setError(error instanceof Error ? error.message : 'File could not be read');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'IMPORT_WATCH_HISTORY',
+        payload: { entries: parsed.entries }
+      });
+
+      if (response && !response.error) {
+        setResult(response);
+        setParsed(null);
+      } else {
+        setError(response?.error || 'Import failed');
+      }
+    } catch (error) {
+      console.error('Import failed:', error);
+      setError('Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeResult = (result: TakeoutImportResult): string => {
+    const parts = [`Imported ${result.imported} views`];
+    if (result.duplicates > 0) parts.push(`${result.duplicates} were already imported`);
+    if (result.skippedTracked > 0) {
+      parts.push(`${result.skippedTracked} from ${result.trackedSince} on were skipped since they're already tracked`);
+    }
+    return `${parts.join('; ')}.`;
+  };
+
+  return (
+    <div className="export-container">
+      <div className="setting-description">
+        Backfill YouTube history from before the extension was installed with the watch-history.json file
+        from Google Takeout, or watch-history.html from an English export. Imported videos count as views with
+        no watch time, and are all counted as regular videos since Takeout doesn't mark Shorts.
+      </div>
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="takeout-file">Watch history:</label>
+          <input
+            id="takeout-file"
+            type="file"
+            accept=".json,.html,application/json,text/html"
+            onChange={handleFileChange}
+          />
+        </div>
+        {parsed && (
+          <div className="export-buttons">
+            <button className="btn btn-primary" onClick={handleImport} disabled={loading}>
+              Import {parsed.entries.length} views
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading && <div className="loading">Importing...</div>}
+      {error && <div className="form-error">{error}</div>}
+      {parsed && parsed.skipped > 0 && (
+        <div className="setting-description">
+          {parsed.skipped} entries are skipped: ads, removed videos, or dates that couldn't be read.
+        </div>
+      )}
+      {result && <div className="setting-description">{describeResult(result)}</div>}
+    </div>
+  );
+};
+
+export default TakeoutImport;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { ChannelSummary } from '../types';
+import { formatTime, getDateString, getDaysAgo } from '../utils';
+
+type SortKey = 'channelName' | 'watchMs' | 'count' | 'share';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'channelName', label: 'Channel' },
+  { key: 'watchMs', label: 'Watch Time' },
+  { key: 'count', label: 'Videos' },
+  { key: 'share', label: 'Share of Total' }
+];
+
+const TopChannels: React.FC = () => {
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [startDate, setStartDate] = useState(getDaysAgo(30));
+  const [endDate, setEndDate] = useState(getDateString());
+  const [sortKey, setSortKey] = useState<SortKey>('watchMs');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchChannels();
+  }, [startDate, endDate]);
+
+  const fetchChannels = async () => {
+    setLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_TOP_CHANNELS',
+        payload: { range: { start: startDate, end: endDate } }
+      });
+
+      if (Array.isArray(response)) {
+        setChannels(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch top channels:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Text sorts A-Z first, numbers largest first
+      setSortAscending(key === 'channelName');
+    }
+  };
+
+  const sortedChannels = [...channels].sort((a, b) => {
+    const result = sortKey === 'channelName'
+      ? a.channelName.localeCompare(b.channelName)
+      : a[sortKey] - b[sortKey];
+    return sortAscending ? result : -result;
+  });
+
+  return (
+    <div className="export-container">
+      <div className="export-controls">
+        <div className="date-input-group">
+          <label htmlFor="channels-start-date">Start Date:</label>
+          <input
+            id="channels-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="date-input-group">
+          <label htmlFor="channels-end-date">End Date:</label>
+          <input
+            id="channels-end-date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading">Loading channels...</div>
+      ) : sortedChannels.length === 0 ? (
+        <div className="setting-description">No channel data for this range.</div>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} onClick={() => handleSort(column.key)}>
+                  {column.label}
+                  {sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedChannels.map(channel => (
+              <tr key={`${channel.platform}::${channel.channelId}`}>
+                <td>{channel.channelName}</td>
+                <td>{formatTime(channel.watchMs)}</td>
+                <td>{channel.count}</td>
+                <td>{(channel.share * 100).toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TopChannels;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DailyAggregate, Goal, GoalResult, Platform, Category } from './types';
+import { computeStreak, evaluateGoal, getGoalLabel } from './goals';
+import { shiftDateString } from './utils';
+
+type GoalRule = Pick<Goal, 'metric' | 'platform' | 'category' | 'threshold'>;
+
+const previousDate = (date: string) => shiftDateString(date, -1);
+
+function createAggregate(platform: Platform, category: Category, watchMinutes: number): DailyAggregate {
+  return {
+    key: `2024-03-04::${platform}::${category}`,
+    date: '2024-03-04',
+    platform,
+    category,
+    watchMs: watchMinutes * 60000,
+    attendedMs: 0,
+    contentMs: 0,
+    count: 0
+  };
+}
+
+function createResult(date: string, met: boolean): GoalResult {
+  return {
+    key: `${date}::goal-1`,
+    date,
+    goalId: 'goal-1',
+    goal: { metric: 'maxMinutes', platform: 'all', category: 'shorts', threshold: 30 },
+    value: 0,
+    met
+  };
+}
+
+describe('getGoalLabel', () => {
+  it('describes both metrics', () => {
+    expect(getGoalLabel({ metric: 'maxMinutes', platform: 'youtube', category: 'shorts', threshold: 30 }))
+      .toBe('Under 30 min of shorts on youtube a day');
+    expect(getGoalLabel({ metric: 'maxShare', platform: 'all', category: 'all', threshold: 20 }))
+      .toBe('everything below 20% of watch time');
+  });
+});
+
+describe('evaluateGoal', () => {
+  const aggregates = [
+    createAggregate('youtube', 'shorts', 15),
+    createAggregate('youtube', 'regular', 45),
+    createAggregate('tiktok', 'tiktok', 40)
+  ];
+
+  it('compares matching minutes with the threshold', () => {
+    const goal: GoalRule = { metric: 'maxMinutes', platform: 'youtube', category: 'shorts', threshold: 20 };
+    expect(evaluateGoal(goal, aggregates)).toEqual({ value: 15, met: true });
+    expect(evaluateGoal({ ...goal, threshold: 15 }, aggregates)).toEqual({ value: 15, met: false });
+  });
+
+  it("measures a category's share of its platform's watch time", () => {
+    const goal: GoalRule = { metric: 'maxShare', platform: 'youtube', category: 'shorts', threshold: 30 };
+    expect(evaluateGoal(goal, aggregates)).toEqual({ value: 25, met: true });
+    expect(evaluateGoal({ ...goal, platform: 'all' }, aggregates)).toEqual({ value: 15, met: true });
+  });
+
+  it('meets every goal on a day without watching', () => {
+    expect(evaluateGoal({ metric: 'maxShare', platform: 'all', category: 'shorts', threshold: 10 }, [])).toEqual({ value: 0, met: true });
+  });
+});
+
+describe('computeStreak', () => {
+  it('extends the streak up to yesterday with a good today', () => {
+    const results = [createResult('2024-03-01', true), createResult('2024-03-02', true), createResult('2024-03-03', true)];
+    const streak = computeStreak('goal-1', results, { date: '2024-03-04', value: 10, met: true }, previousDate);
+    expect(streak).toEqual({ goalId: 'goal-1', currentStreak: 4, bestStreak: 4, metToday: true, todayValue: 10 });
+  });
+
+  it("doesn't break the streak on a day still in progress", () => {
+    const results = [createResult('2024-03-02', true), createResult('2024-03-03', true)];
+    const streak = computeStreak('goal-1', results, { date: '2024-03-04', value: 40, met: false }, previousDate);
+    expect(streak.currentStreak).toBe(2);
+    expect(streak.metToday).toBe(false);
+  });
+
+  it('restarts after a missed day or a gap and keeps the best run', () => {
+    const results = [
+      createResult('2024-02-26', true),
+      createResult('2024-02-27', true),
+      createResult('2024-02-28', true),
+      createResult('2024-02-29', false),
+      createResult('2024-03-01', true),
+      // 2024-03-02 has no result
+      createResult('2024-03-03', true)
+    ];
+    const streak = computeStreak('goal-1', results, { date: '2024-03-04', value: 0, met: true }, previousDate);
+    expect(streak.currentStreak).toBe(2);
+    expect(streak.bestStreak).toBe(3);
+  });
+
+  it("doesn't carry a streak that ended before yesterday", () => {
+    const results = [createResult('2024-03-01', true)];
+    const streak = computeStreak('goal-1', results, { date: '2024-03-04', value: 0, met: true }, previousDate);
+    expect(streak.currentStreak).toBe(1);
+    expect(streak.bestStreak).toBe(1);
+  });
+});
\ No newline at end of file
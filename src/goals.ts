@@ -0,0 +1,70 @@
+import { DailyAggregate, Goal, GoalResult, GoalStreak } from './types';
+import { budgetMatches } from './budgets';
+
+export function getGoalLabel(goal: Pick<Goal, 'metric' | 'platform' | 'category' | 'threshold'>): string {
+  const category = goal.category === 'all' ? 'everything' : goal.category;
+  const platform = goal.platform === 'all' ? '' : ` on ${goal.platform}`;
+
+  return goal.metric === 'maxMinutes'
+    ? `Under ${goal.threshold} min of ${category}${platform} a day`
+    : `${category}${platform} below ${goal.threshold}% of watch time`;
+}
+
+/**
+ * Measures one day's aggregates against a goal. A day without any watching
+ * meets every goal.
+ */
+export function evaluateGoal(
+  goal: Pick<Goal, 'metric' | 'platform' | 'category' | 'threshold'>,
+  aggregates: DailyAggregate[]
+): { value: number; met: boolean } {
+  const matchingMs = aggregates
+    .filter(agg => budgetMatches(goal, agg.platform, agg.category))
+    .reduce((sum, agg) => sum + agg.watchMs, 0);
+
+  if (goal.metric === 'maxMinutes') {
+    const value = matchingMs / 60000;
+    return { value, met: value < goal.threshold };
+  }
+
+  const platformMs = aggregates
+    .filter(agg => goal.platform === 'all' || agg.platform === goal.platform)
+    .reduce((sum, agg) => sum + agg.watchMs, 0);
+  const value = platformMs > 0 ? matchingMs / platformMs * 100 : 0;
+  return { value, met: value < goal.threshold };
+}
+
+/**
+ * Streaks over a goal's stored results (oldest first) plus today's provisional
+ * outcome. Today extends the current streak while it's on track but never
+ * breaks it, since the day isn't over yet. A missing day breaks a streak.
+ */
+export function computeStreak(
+  goalId: string,
+  results: GoalResult[],
+  today: { date: string; value: number; met: boolean },
+  previousDate: (date: string) => string
+): GoalStreak {
+  let bestStreak = 0;
+  let run = 0;
+  let lastDate: string | null = null;
+
+  for (const result of results) {
+    const consecutive = lastDate !== null && previousDate(result.date) === lastDate;
+    run = result.met ? (consecutive ? run + 1 : 1) : 0;
+    bestStreak = Math.max(bestStreak, run);
+    lastDate = result.date;
+  }
+
+  // Results stop short of yesterday when the goal is new or tracking was off
+  const carried = lastDate === previousDate(today.date) ? run : 0;
+  const currentStreak = carried + (today.met ? 1 : 0);
+
+  return {
+    goalId,
+    currentStreak,
+    bestStreak: Math.max(bestStreak, currentStreak),
+    metToday: today.met,
+    todayValue: today.value
+  };
+}
\ No newline at end of file
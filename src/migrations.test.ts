@@ -0,0 +1,69 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { DailyAggregate } from './types';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, Migration, checkAllMigrations, checkMigrationsFromSnapshot } from './migrations';
+
+// Written before attended and content time existed
+const legacyAggregate: Omit<DailyAggregate, 'attendedMs' | 'contentMs'> = {
+  key: '2024-03-04::youtube::shorts',
+  date: '2024-03-04',
+  platform: 'youtube',
+  category: 'shorts',
+  watchMs: 120000,
+  count: 4
+};
+
+describe('MIGRATIONS', () => {
+  it('upgrades every older version to the schema of a fresh install', async () => {
+    const results = await checkAllMigrations();
+
+    expect(results.map(result => result.fromVersion)).toEqual([0, ...MIGRATIONS.slice(0, -1).map(m => m.version)]);
+    for (const result of results) {
+      expect(result.problems).toEqual([]);
+      expect(result.toVersion).toBe(LATEST_SCHEMA_VERSION);
+    }
+  });
+
+  it('backfills attended and content time on a v11 daily aggregate', async () => {
+    const results = await checkAllMigrations({ dailyAggregates: [legacyAggregate] });
+    const fromV11 = results.find(result => result.fromVersion === 11)!;
+
+    expect(fromV11.ok).toBe(true);
+    expect(fromV11.result?.stores.dailyAggregates.records).toEqual([
+      { ...legacyAggregate, attendedMs: 0, contentMs: 0 }
+    ]);
+  });
+
+  it('records the UTC cutover only for installs that have aggregates', async () => {
+    const withData = (await checkAllMigrations({ dailyAggregates: [legacyAggregate] })).find(r => r.fromVersion === 10)!;
+    const empty = (await checkAllMigrations()).find(r => r.fromVersion === 10)!;
+
+    const getBucketing = (records: unknown[] | undefined) =>
+      (records as Array<{ key: string; value: { legacyUtcBefore: string | null } }>).find(r => r.key === 'dateBucketing')?.value;
+    expect(getBucketing(withData.result?.stores.settings.records)?.legacyUtcBefore).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(getBucketing(empty.result?.stores.settings.records)?.legacyUtcBefore).toBeNull();
+  });
+
+  it('names the step that failed and leaves the database at its old version', async () => {
+    const migrations: Migration[] = [
+      MIGRATIONS[0],
+      {
+        version: 2,
+        description: 'Broken step',
+        migrate() {
+          throw new Error('boom');
+        }
+      }
+    ];
+
+    const result = await checkMigrationsFromSnapshot({ version: 0, stores: {} }, migrations);
+    expect(result.ok).toBe(false);
+    expect(result.problems).toEqual(['Migration to v2 (Broken step) failed: boom']);
+  });
+
+  it('rejects steps that are out of order', async () => {
+    const result = await checkMigrationsFromSnapshot({ version: 0, stores: {} }, [MIGRATIONS[1], MIGRATIONS[0]]);
+    expect(result.ok).toBe(false);
+    expect(result.problems).toEqual([`Migration v${MIGRATIONS[0].version} is out of order`]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,494 @@
+import { openDB, deleteDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { TrackerDB } from './storage';
+import type { BackupFile, BackupStoreName } from './types';
+import { getRecordKey } from './backup';
+
+type UpgradeDatabase = IDBPDatabase<TrackerDB>;
+type UpgradeTransaction = IDBPTransaction<TrackerDB, StoreNames<TrackerDB>[], 'versionchange'>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction, so it may only await IndexedDB requests
+  migrate(db: UpgradeDatabase, transaction: UpgradeTransaction): void | Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: number;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    readonly version: number,
+    readonly description: string,
+    readonly reason: unknown
+  ) {
+    super(`Migration to v${version} (${description}) failed: ${reason instanceof Error ? reason.message : String(reason)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+export const MIGRATIONS_SETTING_KEY = 'schemaMigrations';
+
+/**
+ * Every schema change, oldest first. A step runs once, when an install's
+ * database is older than its version; steps are never edited after release.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create events, daily aggregates and settings stores',
+    migrate(db) {
+      const eventsStore = db.createObjectStore('events', { keyPath: 'eventId' });
+      eventsStore.createIndex('by-date', 'timestamp');
+      eventsStore.createIndex('by-platform', 'platform');
+
+      const aggregatesStore = db.createObjectStore('dailyAggregates', { keyPath: 'key' });
+      aggregatesStore.createIndex('by-date', 'date');
+      aggregatesStore.createIndex('by-platform', 'platform');
+
+      db.createObjectStore('settings', { keyPath: 'key' });
+    }
+  },
+  {
+    version: 2,
+    description: 'Create ad aggregates store',
+    migrate(db) {
+      const adAggregatesStore = db.createObjectStore('adAggregates', { keyPath: 'key' });
+      adAggregatesStore.createIndex('by-date', 'date');
+    }
+  },
+  {
+    version: 3,
+    description: 'Create per-channel daily aggregates store',
+    migrate(db) {
+      const channelAggregatesStore = db.createObjectStore('channelAggregates', { keyPath: 'key' });
+      channelAggregatesStore.createIndex('by-date', 'date');
+      channelAggregatesStore.createIndex('by-channel', 'channelId');
+    }
+  },
+  {
+    version: 4,
+    description: 'Create per-video watch history store',
+    migrate(db) {
+      const videosStore = db.createObjectStore('videos', { keyPath: 'videoId' });
+      videosStore.createIndex('by-last-seen', 'lastSeen');
+      videosStore.createIndex('by-platform', 'platform');
+    }
+  },
+  {
+    version: 5,
+    description: 'Create viewing sessions store',
+    migrate(db) {
+      const viewingSessionsStore = db.createObjectStore('viewingSessions', { keyPath: 'id' });
+      viewingSessionsStore.createIndex('by-start', 'start');
+    }
+  },
+  {
+    version: 6,
+    description: 'Create hour-of-day aggregates store',
+    migrate(db) {
+      const hourlyAggregatesStore = db.createObjectStore('hourlyAggregates', { keyPath: 'key' });
+      hourlyAggregatesStore.createIndex('by-date', 'date');
+    }
+  },
+  {
+    version: 7,
+    description: 'Create budget snooze/override log',
+    migrate(db) {
+      const budgetOverridesStore = db.createObjectStore('budgetOverrides', { keyPath: 'eventId' });
+      budgetOverridesStore.createIndex('by-timestamp', 'timestamp');
+    }
+  },
+  {
+    version: 8,
+    description: 'Create focus schedule compliance store',
+    migrate(db) {
+      const scheduleComplianceStore = db.createObjectStore('scheduleCompliance', { keyPath: 'key' });
+      scheduleComplianceStore.createIndex('by-date', 'date');
+    }
+  },
+  {
+    version: 9,
+    description: 'Create goal results store',
+    migrate(db) {
+      const goalResultsStore = db.createObjectStore('goalResults', { keyPath: 'key' });
+      goalResultsStore.createIndex('by-goal', 'goalId');
+      goalResultsStore.createIndex('by-date', 'date');
+    }
+  },
+  {
+    version: 10,
+    description: 'Create break reminders store',
+    migrate(db) {
+      const breakRemindersStore = db.createObjectStore('breakReminders', { keyPath: 'id' });
+      breakRemindersStore.createIndex('by-timestamp', 'timestamp');
+    }
+  },
+  {
+    version: 11,
+    description: 'Record the switch from UTC to local day buckets',
+    async migrate(_db, transaction) {
+      // Aggregates used to be bucketed by UTC day. Re-splitting them needs the raw
+      // events, which a versionchange transaction can't replay, so the cutover is
+      // recorded here; the background rebuilds the days its events still cover and
+      // the dashboard flags the rest.
+      const settingsStore = transaction.objectStore('settings');
+      if (await settingsStore.get('dateBucketing')) return;
+
+      const hasLegacyAggregates = (await transaction.objectStore('dailyAggregates').count()) > 0;
+      await settingsStore.put({
+        key: 'dateBucketing',
+        value: {
+          mode: 'local',
+          switchedAt: Date.now(),
+          // Dates before this one hold UTC-bucketed data
+          legacyUtcBefore: hasLegacyAggregates ? new Date().toISOString().split('T')[0] : null
+        }
+      });
+    }
+  },
+  {
+    version: 12,
+    description: 'Backfill attended and content time on old daily aggregates',
+    async migrate(_db, transaction) {
+      // Aggregates written before attention and media time were tracked have
+      // neither field; they count as zero, as the readers already assumed.
+      let cursor = await transaction.objectStore('dailyAggregates').openCursor();
+      while (cursor) {
+        const aggregate = cursor.value;
+        if (aggregate.attendedMs === undefined || aggregate.contentMs === undefined) {
+          await cursor.update({
+            ...aggregate,
+            attendedMs: aggregate.attendedMs ?? 0,
+            contentMs: aggregate.contentMs ?? 0
+          });
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  },
+  {
+    version: 13,
+    description: 'Create weekly and monthly rollup stores',
+    migrate(db) {
+      const weeklyAggregatesStore = db.createObjectStore('weeklyAggregates', { keyPath: 'key' });
+      weeklyAggregatesStore.createIndex('by-period', 'period');
+
+      const monthlyAggregatesStore = db.createObjectStore('monthlyAggregates', { keyPath: 'key' });
+      monthlyAggregatesStore.createIndex('by-period', 'period');
+    }
+  },
+  {
+    version: 14,
+    description: 'Create imported watch history store',
+    migrate(db) {
+      const importedWatchesStore = db.createObjectStore('importedWatches', { keyPath: 'key' });
+      importedWatchesStore.createIndex('by-date', 'date');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs the steps newer than `oldVersion` in order. A failing step aborts the
+ * versionchange transaction, so the database stays at its old version, and is
+ * rethrown as a MigrationError naming the step.
+ */
+export async function runMigrations(
+  db: UpgradeDatabase,
+  transaction: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> {
+  const fail = (error: Error): never => {
+    console.error(error.message, error instanceof MigrationError ? error.reason : undefined);
+    // openDB reports the abort to the caller; `done` rejecting too is expected
+    transaction.done.catch(() => {});
+    try {
+      transaction.abort();
+    } catch {
+      // Already aborted by the failing request
+    }
+    throw error;
+  };
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      fail(new Error(`Migration v${migration.version} is out of order`));
+    }
+  });
+
+  const pending = migrations.filter(m => m.version > oldVersion && m.version <= newVersion);
+  const applied: AppliedMigration[] = [];
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate(db, transaction);
+      applied.push({ version: migration.version, description: migration.description, appliedAt: Date.now() });
+    } catch (error) {
+      fail(new MigrationError(migration.version, migration.description, error));
+    }
+  }
+
+  if (applied.length > 0 && db.objectStoreNames.contains('settings')) {
+    const settingsStore = transaction.objectStore('settings');
+    const log = await settingsStore.get(MIGRATIONS_SETTING_KEY);
+    await settingsStore.put({ key: MIGRATIONS_SETTING_KEY, value: [...(log?.value || []), ...applied] });
+  }
+}
+
+export interface IndexSnapshot {
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+export interface StoreSnapshot {
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  indexes: Record<string, IndexSnapshot>;
+  records?: unknown[];
+}
+
+export interface SchemaSnapshot {
+  version: number;
+  stores: Record<string, StoreSnapshot>;
+}
+
+export interface MigrationCheckResult {
+  fromVersion: number;
+  toVersion: number;
+  ok: boolean;
+  // Where the migrated schema differs from a fresh install, or the step that failed
+  problems: string[];
+  // The migrated database, records included, for checking rewritten data
+  result?: SchemaSnapshot;
+}
+
+export async function captureSchemaSnapshot<DBTypes extends DBSchema | unknown>(
+  db: IDBPDatabase<DBTypes>,
+  includeRecords = false
+): Promise<SchemaSnapshot> {
+  const snapshot: SchemaSnapshot = { version: db.version, stores: {} };
+  const storeNames = Array.from(db.objectStoreNames);
+  if (storeNames.length === 0) return snapshot;
+
+  const tx = db.transaction(storeNames, 'readonly');
+  for (const name of storeNames) {
+    const store = tx.objectStore(name);
+    const indexes: Record<string, IndexSnapshot> = {};
+    for (const indexName of Array.from(store.indexNames)) {
+      const index = store.index(indexName);
+      indexes[indexName] = { keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+    }
+
+    snapshot.stores[name] = {
+      keyPath: store.keyPath,
+      autoIncrement: store.autoIncrement,
+      indexes,
+      records: includeRecords ? await store.getAll() : undefined
+    };
+  }
+  await tx.done;
+
+  return snapshot;
+}
+
+/**
+ * Rebuilds a database exactly as described by a snapshot (as captured from an
+ * older install, or hand-written), without going through the migrations.
+ */
+async function restoreSchemaSnapshot(name: string, snapshot: SchemaSnapshot): Promise<void> {
+  const db = await openDB(name, snapshot.version, {
+    upgrade(upgradeDb, _oldVersion, _newVersion, transaction) {
+      for (const [storeName, store] of Object.entries(snapshot.stores)) {
+        const objectStore = upgradeDb.createObjectStore(storeName, {
+          keyPath: store.keyPath ?? undefined,
+          autoIncrement: store.autoIncrement
+        });
+        for (const [indexName, index] of Object.entries(store.indexes)) {
+          objectStore.createIndex(indexName, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+        }
+        for (const record of store.records || []) {
+          transaction.objectStore(storeName).put(record);
+        }
+      }
+    }
+  });
+  db.close();
+}
+
+async function migrateDatabase(name: string, version: number, migrations: Migration[]): Promise<IDBPDatabase<TrackerDB>> {
+  let failure: unknown = null;
+  try {
+    return await openDB<TrackerDB>(name, version, {
+      async upgrade(db, oldVersion, newVersion, transaction) {
+        try {
+          await runMigrations(db, transaction, oldVersion, newVersion ?? version, migrations);
+        } catch (error) {
+          failure = error;
+        }
+      }
+    });
+  } catch (error) {
+    throw failure || error;
+  }
+}
+
+function compareSchemas(actual: SchemaSnapshot, expected: SchemaSnapshot): string[] {
+  const problems: string[] = [];
+  const storeNames = new Set([...Object.keys(actual.stores), ...Object.keys(expected.stores)]);
+
+  for (const storeName of storeNames) {
+    const actualStore = actual.stores[storeName];
+    const expectedStore = expected.stores[storeName];
+    if (!actualStore || !expectedStore) {
+      problems.push(`Store ${storeName} is ${actualStore ? 'unexpected' : 'missing'}`);
+      continue;
+    }
+    if (JSON.stringify(actualStore.keyPath) !== JSON.stringify(expectedStore.keyPath)) {
+      problems.push(`Store ${storeName} has key path ${JSON.stringify(actualStore.keyPath)}, expected ${JSON.stringify(expectedStore.keyPath)}`);
+    }
+
+    const indexNames = new Set([...Object.keys(actualStore.indexes), ...Object.keys(expectedStore.indexes)]);
+    for (const indexName of indexNames) {
+      const actualIndex = actualStore.indexes[indexName];
+      const expectedIndex = expectedStore.indexes[indexName];
+      if (!actualIndex || !expectedIndex) {
+        problems.push(`Index ${storeName}.${indexName} is ${actualIndex ? 'unexpected' : 'missing'}`);
+      } else if (JSON.stringify(actualIndex) !== JSON.stringify(expectedIndex)) {
+        problems.push(`Index ${storeName}.${indexName} is ${JSON.stringify(actualIndex)}, expected ${JSON.stringify(expectedIndex)}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Upgrades a throwaway copy of an older schema snapshot through the pending
+ * migrations and checks the result matches a fresh install. Neither database
+ * touches the real one.
+ */
+export async function checkMigrationsFromSnapshot(
+  snapshot: SchemaSnapshot,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationCheckResult> {
+  const toVersion = migrations[migrations.length - 1].version;
+  const suffix = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const freshName = `migration-check-fresh-${suffix}`;
+  const upgradedName = `migration-check-upgraded-${suffix}`;
+  const result: MigrationCheckResult = { fromVersion: snapshot.version, toVersion, ok: false, problems: [] };
+
+  try {
+    const freshDb = await migrateDatabase(freshName, toVersion, migrations);
+    const expected = await captureSchemaSnapshot(freshDb);
+    freshDb.close();
+
+    if (snapshot.version > 0) {
+      await restoreSchemaSnapshot(upgradedName, snapshot);
+    }
+    const upgradedDb = await migrateDatabase(upgradedName, toVersion, migrations);
+    result.result = await captureSchemaSnapshot(upgradedDb, true);
+    upgradedDb.close();
+
+    result.problems = compareSchemas(result.result, expected);
+    result.ok = result.problems.length === 0;
+  } catch (error) {
+    result.problems.push(error instanceof Error ? error.message : String(error));
+  } finally {
+    await deleteDB(freshName);
+    await deleteDB(upgradedName);
+  }
+
+  return result;
+}
+
+/**
+ * Checks every step: builds the schema each older version had by running the
+ * migrations up to it, optionally seeds it with records, then upgrades it.
+ */
+export async function checkAllMigrations(
+  seedRecords: Record<string, unknown[]> = {},
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationCheckResult[]> {
+  const results: MigrationCheckResult[] = [];
+
+  for (const migration of [{ version: 0 }, ...migrations.slice(0, -1)]) {
+    let snapshot: SchemaSnapshot = { version: 0, stores: {} };
+
+    if (migration.version > 0) {
+      const name = `migration-check-snapshot-${Date.now()}-${migration.version}`;
+      try {
+        const db = await migrateDatabase(name, migration.version, migrations);
+        snapshot = await captureSchemaSnapshot(db);
+        db.close();
+      } finally {
+        await deleteDB(name);
+      }
+
+      for (const [storeName, records] of Object.entries(seedRecords)) {
+        if (snapshot.stores[storeName]) snapshot.stores[storeName].records = records;
+      }
+    }
+
+    results.push(await checkMigrationsFromSnapshot(snapshot, migrations));
+  }
+
+  return results;
+}
+
+/**
+ * Brings records written at an older schema version up to date: loads them into
+ * a throwaway database built by the steps up to that version and runs the newer
+ * steps over it, data steps included. Stores that version didn't have, and
+ * records without a key, come back unchanged. The real database isn't touched.
+ */
+export async function migrateRecords(
+  fromVersion: number,
+  stores: BackupFile['stores'],
+  migrations: Migration[] = MIGRATIONS
+): Promise<BackupFile['stores']> {
+  const toVersion = migrations[migrations.length - 1].version;
+  const name = `migration-records-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const migrated: BackupFile['stores'] = {};
+
+  try {
+    const oldDb = await migrateDatabase(name, fromVersion, migrations);
+    const snapshot = await captureSchemaSnapshot(oldDb);
+    oldDb.close();
+    await deleteDB(name);
+
+    for (const storeName of Object.keys(stores) as BackupStoreName[]) {
+      const records = stores[storeName] || [];
+      const keyPath = snapshot.stores[storeName]?.keyPath;
+      if (typeof keyPath !== 'string') {
+        migrated[storeName] = records;
+        continue;
+      }
+      const hasKey = (record: unknown) => getRecordKey(record, keyPath) !== undefined;
+      snapshot.stores[storeName].records = records.filter(hasKey);
+      migrated[storeName] = records.filter(record => !hasKey(record));
+    }
+
+    await restoreSchemaSnapshot(name, snapshot);
+    const db = await migrateDatabase(name, toVersion, migrations);
+    const result = await captureSchemaSnapshot(db, true);
+    db.close();
+
+    for (const storeName of Object.keys(stores) as BackupStoreName[]) {
+      if (snapshot.stores[storeName]?.records) {
+        migrated[storeName] = [...(result.stores[storeName].records || []), ...(migrated[storeName] || [])];
+      }
+    }
+  } finally {
+    await deleteDB(name);
+  }
+
+  return migrated;
+}
\ No newline at end of file
@@ -1,34 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { TabStats } from '../types';
+import {
+  BreakReminderPrompt,
+  BreakReminderRecord,
+  BudgetOverrideEvent,
+  BudgetStatus,
+  GoalStreak,
+  TabStats
+} from '../types';
 import { formatTime } from '../utils';
+import { BUDGET_SNOOZE_MINUTES, getBudgetLabel } from '../budgets';
 
 interface OverlayAppProps {
-  // No props - fetches data from background
+  // Stats come from the background; enforcement state comes from the content script
+  blockedBudget?: BudgetStatus | null;
+  // A used-up 'pause' budget: playback is held but the page stays usable
+  pausedBudget?: BudgetStatus | null;
+  onBudgetOverride?: (action: BudgetOverrideEvent['action']) => void;
+  breakReminder?: BreakReminderPrompt | null;
+  onBreakReminderResponse?: (outcome: Exclude<BreakReminderRecord['outcome'], 'pending'>) => void;
+  onBreakFinished?: () => void;
 }
 
-const OverlayApp: React.FC<OverlayAppProps> = () => {
+const OverlayApp: React.FC<OverlayAppProps> = ({
+  blockedBudget,
+  pausedBudget,
+  onBudgetOverride,
+  breakReminder,
+  onBreakReminderResponse,
+  onBreakFinished
+}) => {
   const [stats, setStats] = useState<TabStats>({
     shortsCount: 0,
     shortsMs: 0,
     regularCount: 0,
-    regularMs: 0
+    regularMs: 0,
+    shortsAttendedMs: 0,
+    regularAttendedMs: 0,
+    shortsContentMs: 0,
+    regularContentMs: 0
   });
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [streaks, setStreaks] = useState<GoalStreak[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isHidden] = useState(false);
+  const [breakEndsAt, setBreakEndsAt] = useState(0);
+  const [breakAccepted, setBreakAccepted] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     // Fetch initial stats
     fetchStats();
+    fetchBudgets();
 
     // Set up periodic updates
     const interval = setInterval(fetchStats, 1000);
+    fetchStreaks();
+    const streakInterval = setInterval(fetchStreaks, 60000);
 
     // Listen for messages from background
     const messageListener = (message: any) => {
       if (message.type === 'TAB_STATS_UPDATE') {
         setStats(message.payload);
         setIsLoading(false);
+      } else if (message.type === 'BUDGET_STATUS_UPDATE') {
+        setBudgets(message.payload || []);
       }
     };
 
@@ -36,10 +72,40 @@ const OverlayApp: React.FC<OverlayAppProps> = () => {
 
     return () => {
       clearInterval(interval);
+      clearInterval(streakInterval);
       chrome.runtime.onMessage.removeListener(messageListener);
     };
   }, []);
 
+  // Each new reminder starts a countdown of the suggested break length
+  useEffect(() => {
+    if (!breakReminder) return;
+
+    setBreakEndsAt(Date.now() + breakReminder.breakMinutes * 60000);
+    setBreakAccepted(false);
+    setNow(Date.now());
+
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, [breakReminder]);
+
+  useEffect(() => {
+    if (!breakReminder || !breakEndsAt || now < breakEndsAt) return;
+
+    // A break that was taken is over; a reminder left unanswered counts as ignored
+    if (breakAccepted) {
+      onBreakFinished?.();
+    } else {
+      onBreakReminderResponse?.('ignored');
+    }
+  }, [now]);
+
+  const handleTakeBreak = () => {
+    setBreakAccepted(true);
+    setBreakEndsAt(Date.now() + (breakReminder?.breakMinutes || 0) * 60000);
+    onBreakReminderResponse?.('accepted');
+  };
+
   const fetchStats = async () => {
     try {
       const response = await chrome.runtime.sendMessage({
@@ -55,6 +121,34 @@ const OverlayApp: React.FC<OverlayAppProps> = () => {
     }
   };
 
+  const fetchBudgets = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_BUDGET_STATUS'
+      });
+
+      if (Array.isArray(response)) {
+        setBudgets(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch budgets:', error);
+    }
+  };
+
+  const fetchStreaks = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_GOAL_STREAKS'
+      });
+
+      if (Array.isArray(response)) {
+        setStreaks(response);
+      }
+    } catch (error) {
+      console.error('Failed to fetch goal streaks:', error);
+    }
+  };
+
   const handleSettingsClick = () => {
     chrome.runtime.openOptionsPage();
   };
@@ -75,12 +169,51 @@ const OverlayApp: React.FC<OverlayAppProps> = () => {
     return null;
   }
 
+  const getBudgetTitle = (budget: BudgetStatus): string =>
+    budget.scheduleName ? `Focus hours: ${budget.scheduleName}` : "You're over budget";
+
+  const getBudgetMessage = (budget: BudgetStatus): string =>
+    budget.scheduleName && budget.limitMs === 0
+      ? `${getBudgetLabel(budget)} is off limits during this schedule.`
+      : `You've used all ${formatTime(budget.limitMs)} of ${budget.scheduleName ? 'this window' : "today's budget"} for ${getBudgetLabel(budget)}.`;
+
+  const budgetActions = (
+    <div className="swt-interstitial-actions">
+      <button className="swt-btn" onClick={() => onBudgetOverride?.('snooze')}>
+        Snooze {BUDGET_SNOOZE_MINUTES} minutes
+      </button>
+      <button className="swt-btn secondary" onClick={() => onBudgetOverride?.('override')}>
+        Ignore for today
+      </button>
+    </div>
+  );
+
+  if (blockedBudget) {
+    return (
+      <div className="swt-interstitial">
+        <div className="swt-interstitial-card">
+          <div className="swt-interstitial-title">{getBudgetTitle(blockedBudget)}</div>
+          <div className="swt-interstitial-text">{getBudgetMessage(blockedBudget)}</div>
+          {budgetActions}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`swt-overlay ${isCollapsed ? 'collapsed' : ''}`}>
       <div className="swt-header">
         <div className="swt-title" onClick={toggleCollapsed} style={{ cursor: 'pointer' }}>
           📺 Watch Tracker
         </div>
+        {streaks.length > 0 && (
+          <div
+            className={`swt-streak-badge ${streaks.every(streak => streak.metToday) ? '' : 'off-track'}`}
+            title={`Goals met ${streaks.filter(streak => streak.metToday).length}/${streaks.length} today`}
+          >
+            🔥 {Math.max(...streaks.map(streak => streak.currentStreak))}
+          </div>
+        )}
         <button 
           className="swt-settings-btn" 
           onClick={handleSettingsClick}
@@ -90,6 +223,36 @@ const OverlayApp: React.FC<OverlayAppProps> = () => {
         </button>
       </div>
 
+      {pausedBudget && (
+        <div className="swt-break-card swt-paused-card">
+          <div className="swt-break-title">{getBudgetTitle(pausedBudget)}</div>
+          <div className="swt-break-text">{getBudgetMessage(pausedBudget)} Playback stays paused.</div>
+          {budgetActions}
+        </div>
+      )}
+
+      {breakReminder && (
+        <div className="swt-break-card">
+          <div className="swt-break-title">
+            {breakAccepted ? 'Enjoy your break' : 'Time for a break?'}
+          </div>
+          <div className="swt-break-text">
+            {breakAccepted
+              ? `Back in ${formatTime(Math.max(0, breakEndsAt - now))}`
+              : `You've been watching for ${formatTime(breakReminder.watchedMs)}. ` +
+                `Take ${breakReminder.breakMinutes} minutes off (${formatTime(Math.max(0, breakEndsAt - now))}).`}
+          </div>
+          {!breakAccepted && (
+            <div className="swt-interstitial-actions">
+              <button className="swt-btn" onClick={handleTakeBreak}>Take a break</button>
+              <button className="swt-btn secondary" onClick={() => onBreakReminderResponse?.('ignored')}>
+                Keep watching
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {isLoading ? (
         <div className="swt-loading">Loading...</div>
       ) : (
@@ -133,6 +296,35 @@ const OverlayApp: React.FC<OverlayAppProps> = () => {
               />
             </div>
           </div>
+
+          {budgets.length > 0 && (
+            <div className="swt-stats-group">
+              <div className="swt-category-title">Budgets</div>
+              {budgets.map(budget => (
+                <div
+                  key={budget.budgetId}
+                  className={`swt-budget ${budget.exceeded ? 'exceeded' : budget.warning ? 'warning' : ''}`}
+                >
+                  <div className="swt-stat-row">
+                    <span className="swt-stat-label">{budget.scheduleName || getBudgetLabel(budget)}</span>
+                    <span className="swt-stat-value">
+                      {budget.scheduleName && budget.limitMs === 0
+                        ? 'Blocked now'
+                        : budget.exceeded
+                        ? `${formatTime(budget.usedMs - budget.limitMs)} over`
+                        : `${formatTime(budget.remainingMs)} left`}
+                    </span>
+                  </div>
+                  <div className="swt-progress-container">
+                    <div
+                      className="swt-progress-bar budget"
+                      style={{ width: `${getProgressPercentage(budget.usedMs, budget.limitMs)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,264 @@
+import { PlatformModule, PlatformModuleHandle } from './platformInterface';
+import { TrackerEvent, Platform, Category } from '../types';
+import { debounce, generateEventId } from '../utils';
+
+/**
+ * Shared plumbing for sites that keep several players mounted and switch between
+ * them as the user scrolls: follows the active <video>, forwards its playback
+ * events and watches SPA navigation. Subclasses say how to find the video and
+ * how to identify and describe it.
+ */
+export abstract class FeedVideoModule implements PlatformModule {
+  abstract platformId: string;
+  protected abstract platform: Platform;
+  protected currentVideo: HTMLVideoElement | null = null;
+  protected currentVideoId: string | null = null;
+  protected root: Document | null = null;
+  private observers: MutationObserver[] = [];
+  private videoListeners: Array<{ element: Element; event: string; handler: EventListener }> = [];
+  private globalListeners: Array<{ element: Document | Window; event: string; handler: EventListener; capture: boolean }> = [];
+  private emit: ((event: TrackerEvent) => void) | null = null;
+  private lastTimeUpdate = 0;
+  private timeUpdateThrottle = 1000; // 1 second
+  private originalPushState: History['pushState'] | null = null;
+  private originalReplaceState: History['replaceState'] | null = null;
+
+  abstract matches(url: string): boolean;
+
+  protected abstract findVideo(root: Document): HTMLVideoElement | null;
+
+  protected abstract getCurrentVideoId(): string | null;
+
+  protected abstract getVideoTitle(): string;
+
+  protected abstract getVideoCategory(): Category;
+
+  init(root: Document, emit: (event: TrackerEvent) => void): PlatformModuleHandle {
+    this.emit = emit;
+    this.root = root;
+    this.setupVideoDetection(root);
+    this.setupNavigationDetection();
+
+    return {
+      destroy: () => this.destroy(),
+      pause: () => this.currentVideo?.pause()
+    };
+  }
+
+  /**
+   * Whether an added node can hold a new player. Sites whose selector matches
+   * wrappers rather than <video> itself treat every node as relevant.
+   */
+  protected isVideoNode(element: Element): boolean {
+    return element.tagName === 'VIDEO' || element.querySelector('video') !== null;
+  }
+
+  // The meta.videoId to report for the current video
+  protected getEventVideoId(): string | undefined {
+    return this.currentVideoId || undefined;
+  }
+
+  private setupVideoDetection(root: Document): void {
+    // Initial video detection
+    this.detectVideo();
+
+    // Feeds recycle items as the user scrolls, so re-check on DOM changes;
+    // debounce to keep busy pages cheap
+    const detectVideo = debounce(() => this.detectVideo(), 200);
+    const observer = new MutationObserver((mutations) => {
+      const added = mutations.some(mutation => Array.from(mutation.addedNodes).some(
+        node => node.nodeType === Node.ELEMENT_NODE && this.isVideoNode(node as Element)
+      ));
+      if (added) detectVideo();
+    });
+
+    observer.observe(root, {
+      childList: true,
+      subtree: true
+    });
+
+    this.observers.push(observer);
+
+    // Media events don't bubble, but they do go through the capture phase. Any video
+    // starting to play is the strongest hint that the active item changed.
+    this.addGlobalListener(root, 'play', () => this.detectVideo(), true);
+    this.addGlobalListener(window, 'scroll', detectVideo, true);
+  }
+
+  private setupNavigationDetection(): void {
+    // Listen for URL changes (SPA navigation)
+    this.originalPushState = history.pushState;
+    this.originalReplaceState = history.replaceState;
+    const originalPushState = this.originalPushState;
+    const originalReplaceState = this.originalReplaceState;
+
+    const handleNavigation = () => {
+      setTimeout(() => {
+        this.handleNavigation();
+      }, 100); // Small delay to let the page update
+    };
+
+    history.pushState = function(...args) {
+      originalPushState.apply(history, args);
+      handleNavigation();
+    };
+
+    history.replaceState = function(...args) {
+      originalReplaceState.apply(history, args);
+      handleNavigation();
+    };
+
+    this.addGlobalListener(window, 'popstate', handleNavigation, false);
+  }
+
+  protected detectVideo(): void {
+    if (!this.root) return;
+
+    const video = this.findVideo(this.root);
+
+    if (video && video !== this.currentVideo) {
+      const previousVideoId = this.currentVideoId;
+      this.setupVideoListeners(video);
+
+      if (this.currentVideoId && this.currentVideoId !== previousVideoId && !video.paused) {
+        this.emit?.(this.createEvent('navigation'));
+      }
+    }
+  }
+
+  private setupVideoListeners(video: HTMLVideoElement): void {
+    // Clean up previous video listeners
+    this.cleanupVideoListeners();
+
+    this.currentVideo = video;
+    this.currentVideoId = this.getCurrentVideoId();
+
+    // Add event listeners
+    this.addVideoListener(video, 'play', () => this.handlePlay());
+    this.addVideoListener(video, 'pause', () => this.handlePause());
+    this.addVideoListener(video, 'ended', () => this.handleEnd());
+    this.addVideoListener(video, 'timeupdate', () => this.handleTimeUpdate());
+    this.addVideoListener(video, 'loadstart', () => this.handleLoadStart());
+  }
+
+  private cleanupVideoListeners(): void {
+    this.videoListeners.forEach(({ element, event, handler }) => {
+      element.removeEventListener(event, handler);
+    });
+    this.videoListeners = [];
+  }
+
+  private addVideoListener(element: Element, event: string, handler: EventListener): void {
+    element.addEventListener(event, handler);
+    this.videoListeners.push({ element, event, handler });
+  }
+
+  private addGlobalListener(element: Document | Window, event: string, handler: EventListener, capture: boolean): void {
+    element.addEventListener(event, handler, capture);
+    this.globalListeners.push({ element, event, handler, capture });
+  }
+
+  private createEvent(type: TrackerEvent['type'], additionalData: Partial<TrackerEvent> = {}): TrackerEvent {
+    return {
+      eventId: generateEventId(),
+      timestamp: Date.now(),
+      platform: this.platform,
+      category: this.getVideoCategory(),
+      type,
+      currentTime: this.currentVideo?.currentTime ? Math.floor(this.currentVideo.currentTime * 1000) : undefined,
+      duration: this.currentVideo?.duration ? Math.floor(this.currentVideo.duration * 1000) : undefined,
+      muted: this.currentVideo ? this.currentVideo.muted || this.currentVideo.volume === 0 : undefined,
+      playbackRate: this.currentVideo?.playbackRate,
+      meta: {
+        videoId: this.getEventVideoId(),
+        title: this.getVideoTitle(),
+        url: window.location.href
+      },
+      ...additionalData
+    };
+  }
+
+  private handlePlay(): void {
+    if (!this.emit) return;
+
+    this.emit(this.createEvent('start'));
+  }
+
+  private handlePause(): void {
+    if (!this.emit) return;
+
+    this.emit(this.createEvent('pause'));
+  }
+
+  private handleEnd(): void {
+    if (!this.emit) return;
+
+    this.emit(this.createEvent('end'));
+  }
+
+  private handleTimeUpdate(): void {
+    if (!this.emit || !this.currentVideo) return;
+
+    const now = Date.now();
+    if (now - this.lastTimeUpdate < this.timeUpdateThrottle) {
+      return;
+    }
+
+    this.lastTimeUpdate = now;
+    this.emit(this.createEvent('time_update'));
+  }
+
+  private handleLoadStart(): void {
+    // The same element can be reused for the next item in the feed
+    const newVideoId = this.getCurrentVideoId();
+    if (newVideoId !== this.currentVideoId) {
+      this.currentVideoId = newVideoId;
+      this.emit?.(this.createEvent('navigation'));
+    }
+  }
+
+  protected handleNavigation(): void {
+    if (!this.emit) return;
+
+    const newVideoId = this.getCurrentVideoId();
+    if (newVideoId !== this.currentVideoId) {
+      this.currentVideoId = newVideoId;
+      this.emit(this.createEvent('navigation'));
+
+      // Re-detect video element after navigation
+      setTimeout(() => {
+        this.detectVideo();
+      }, 500);
+    }
+  }
+
+  protected destroy(): void {
+    // The platform was switched off or the page is going away; close the open session
+    if (this.emit && this.currentVideo && this.currentVideoId) {
+      this.emit(this.createEvent('close'));
+    }
+
+    // Clean up observers
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers = [];
+
+    // Clean up event listeners
+    this.cleanupVideoListeners();
+    this.globalListeners.forEach(({ element, event, handler, capture }) => {
+      element.removeEventListener(event, handler, capture);
+    });
+    this.globalListeners = [];
+
+    // Restore history patches
+    if (this.originalPushState) history.pushState = this.originalPushState;
+    if (this.originalReplaceState) history.replaceState = this.originalReplaceState;
+    this.originalPushState = null;
+    this.originalReplaceState = null;
+
+    // Reset state
+    this.currentVideo = null;
+    this.currentVideoId = null;
+    this.root = null;
+    this.emit = null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { FeedVideoModule } from './feedVideoModule';
+import { PlatformModuleHandle } from './platformInterface';
+import { platformRegistry } from './registry';
+import { TrackerEvent, Platform, Category, GenericSiteConfig } from '../types';
+import { findActiveVideo, matchPatternToRegExp } from '../utils';
+
+/**
+ * Tracks sites without a hand-written module using the selectors and patterns
+ * the user entered on the options page.
+ */
+export class GenericVideoModule extends FeedVideoModule {
+  platformId = 'generic';
+  protected platform: Platform = 'generic';
+  private siteConfigs: GenericSiteConfig[];
+  private config: GenericSiteConfig | null = null;
+
+  constructor(siteConfigs: GenericSiteConfig[]) {
+    super();
+    this.siteConfigs = siteConfigs;
+  }
+
+  matches(url: string): boolean {
+    return this.findConfig(url) !== null;
+  }
+
+  init(root: Document, emit: (event: TrackerEvent) => void): PlatformModuleHandle {
+    this.config = this.findConfig(window.location.href);
+    return super.init(root, emit);
+  }
+
+  private findConfig(url: string): GenericSiteConfig | null {
+    for (const config of this.siteConfigs) {
+      if (!config.enabled) continue;
+      if (matchPatternToRegExp(config.urlPattern)?.test(url)) return config;
+    }
+
+    return null;
+  }
+
+  // The selector may match wrappers rather than <video> itself, so any added node can be relevant
+  protected isVideoNode(): boolean {
+    return true;
+  }
+
+  protected findVideo(root: Document): HTMLVideoElement | null {
+    if (!this.config) return null;
+
+    try {
+      return findActiveVideo(root, this.config.videoSelector || 'video');
+    } catch (error) {
+      // Invalid user-supplied selector
+      console.error('GenericVideoModule: invalid video selector', error);
+      return null;
+    }
+  }
+
+  protected getCurrentVideoId(): string | null {
+    if (!this.config) return null;
+
+    const regex = safeRegExp(this.config.videoIdRegex);
+    const match = regex ? window.location.href.match(regex) : null;
+    if (!match) return null;
+
+    return match[1] || match[0];
+  }
+
+  // Prefix with the site so IDs from different sites never collide
+  protected getEventVideoId(): string | undefined {
+    return this.currentVideoId && this.config ? `${this.config.id}:${this.currentVideoId}` : undefined;
+  }
+
+  protected getVideoTitle(): string {
+    if (this.config?.titleSelector) {
+      try {
+        const title = document.querySelector(this.config.titleSelector)?.textContent?.trim();
+        if (title) return title;
+      } catch (error) {
+        // Invalid user-supplied selector, fall back to the document title
+      }
+    }
+
+    return document.title;
+  }
+
+  protected getVideoCategory(): Category {
+    if (!this.config) return 'regular';
+
+    const url = window.location.href;
+    const duration = this.currentVideo?.duration;
+
+    for (const rule of this.config.categoryRules) {
+      if (rule.urlRegex && !safeRegExp(rule.urlRegex)?.test(url)) continue;
+      if (rule.maxDurationSeconds !== undefined && !(duration && duration <= rule.maxDurationSeconds)) continue;
+      return rule.category;
+    }
+
+    return this.config.defaultCategory;
+  }
+
+  protected handleNavigation(): void {
+    // A different config may cover the new URL
+    this.config = this.findConfig(window.location.href);
+    super.handleNavigation();
+  }
+
+  protected destroy(): void {
+    super.destroy();
+    this.config = null;
+  }
+}
+
+function safeRegExp(source: string): RegExp | null {
+  try {
+    return new RegExp(source);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Re-registers the generic module with the latest site configs. The content
+ * script calls this once it has loaded them from the background.
+ */
+export function registerGenericSites(siteConfigs: GenericSiteConfig[]): void {
+  platformRegistry.register('generic', () => new GenericVideoModule(siteConfigs));
+}
+
+registerGenericSites([]);
\ No newline at end of file
@@ -0,0 +1,9 @@
+// Importing a module registers it; registration order is match priority.
+import './youtubeModule';
+import './tiktokModule';
+import './instagramModule';
+import './genericVideoModule';
+
+export { registerGenericSites } from './genericVideoModule';
+export { platformRegistry } from './registry';
+export type { PlatformModule, PlatformModuleHandle } from './platformInterface';
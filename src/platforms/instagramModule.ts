@@ -0,0 +1,58 @@
+import { FeedVideoModule } from './feedVideoModule';
+import { platformRegistry } from './registry';
+import { Platform, Category } from '../types';
+import { extractInstagramVideoId, findActiveVideo } from '../utils';
+
+export class InstagramModule extends FeedVideoModule {
+  platformId = 'instagram';
+  protected platform: Platform = 'instagram';
+
+  matches(url: string): boolean {
+    return url.includes('instagram.com');
+  }
+
+  protected findVideo(root: Document): HTMLVideoElement | null {
+    return findActiveVideo(root);
+  }
+
+  /**
+   * The `/reels/` feed rewrites the URL to `/reels/<id>` for the reel in view,
+   * and its items have no wrapper of their own to find a permalink in, so the
+   * URL is the source there. Feed posts and dialogs link each video to its
+   * permalink.
+   */
+  protected getCurrentVideoId(): string | null {
+    if (/^\/reels?\//.test(window.location.pathname)) {
+      return extractInstagramVideoId(window.location.href);
+    }
+
+    if (this.currentVideo) {
+      const fromDom = this.getVideoIdFromDom(this.currentVideo);
+      if (fromDom) return fromDom;
+    }
+
+    return extractInstagramVideoId(window.location.href);
+  }
+
+  private getVideoIdFromDom(video: HTMLVideoElement): string | null {
+    const container = this.getPostContainer(video);
+    const link = container?.querySelector('a[href*="/reel/"], a[href*="/p/"]') as HTMLAnchorElement | null;
+    return link ? extractInstagramVideoId(link.href) : null;
+  }
+
+  private getPostContainer(video: HTMLVideoElement): Element | null {
+    return video.closest('article, [role="dialog"]');
+  }
+
+  protected getVideoTitle(): string {
+    const container = this.currentVideo ? this.getPostContainer(this.currentVideo) : null;
+    const caption = container?.querySelector('h1, [data-testid="post-comment-root"] span');
+    return caption?.textContent?.trim() || document.title;
+  }
+
+  protected getVideoCategory(): Category {
+    return 'reel';
+  }
+}
+
+platformRegistry.register('instagram', () => new InstagramModule());
\ No newline at end of file
@@ -3,5 +3,11 @@ import { TrackerEvent } from '../types';
 export interface PlatformModule {
   platformId: string;
   matches(url: string): boolean;
-  init(root: Document, emit: (event: TrackerEvent) => void): { destroy(): void };
+  init(root: Document, emit: (event: TrackerEvent) => void): PlatformModuleHandle;
+}
+
+export interface PlatformModuleHandle {
+  destroy(): void;
+  // Pauses whatever the module is currently tracking, for budget and schedule enforcement
+  pause(): void;
 }
\ No newline at end of file
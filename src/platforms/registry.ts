@@ -0,0 +1,47 @@
+import { PlatformModule } from './platformInterface';
+
+export type PlatformModuleFactory = () => PlatformModule;
+
+/**
+ * Keeps one factory per platform so the content script can build a fresh
+ * module instance each time the active platform changes.
+ */
+class PlatformRegistry {
+  private factories: Map<string, PlatformModuleFactory> = new Map();
+  private matchers: Map<string, PlatformModule> = new Map();
+
+  register(platformId: string, factory: PlatformModuleFactory): void {
+    this.factories.set(platformId, factory);
+    // A throwaway instance is enough to answer matches() without touching the page
+    this.matchers.set(platformId, factory());
+  }
+
+  unregister(platformId: string): void {
+    this.factories.delete(platformId);
+    this.matchers.delete(platformId);
+  }
+
+  getPlatformIds(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Returns the id of the first registered platform whose module accepts the URL.
+   * Platforms switched off in `enabled` are skipped; missing entries count as enabled.
+   */
+  findMatch(url: string, enabled: Record<string, boolean> = {}): string | null {
+    for (const [platformId, matcher] of this.matchers.entries()) {
+      if (enabled[platformId] === false) continue;
+      if (matcher.matches(url)) return platformId;
+    }
+
+    return null;
+  }
+
+  create(platformId: string): PlatformModule | null {
+    const factory = this.factories.get(platformId);
+    return factory ? factory() : null;
+  }
+}
+
+export const platformRegistry = new PlatformRegistry();
@@ -0,0 +1,59 @@
+import { FeedVideoModule } from './feedVideoModule';
+import { platformRegistry } from './registry';
+import { Platform, Category } from '../types';
+import { extractTikTokVideoId, findActiveVideo } from '../utils';
+
+export class TikTokModule extends FeedVideoModule {
+  platformId = 'tiktok';
+  protected platform: Platform = 'tiktok';
+
+  matches(url: string): boolean {
+    return url.includes('tiktok.com');
+  }
+
+  protected findVideo(root: Document): HTMLVideoElement | null {
+    return findActiveVideo(root);
+  }
+
+  /**
+   * Feed items carry the video ID in their permalink or player wrapper id;
+   * `/@user/video/<id>` pages carry it in the URL.
+   */
+  protected getCurrentVideoId(): string | null {
+    if (this.currentVideo) {
+      const fromDom = this.getVideoIdFromDom(this.currentVideo);
+      if (fromDom) return fromDom;
+    }
+
+    return extractTikTokVideoId(window.location.href);
+  }
+
+  private getVideoIdFromDom(video: HTMLVideoElement): string | null {
+    // Player wrappers are rendered as `xgwrapper-<index>-<videoId>`
+    const wrapper = video.closest('[id^="xgwrapper-"]');
+    if (wrapper) {
+      const match = wrapper.id.match(/-(\d+)$/);
+      if (match) return match[1];
+    }
+
+    const item = this.getFeedItem(video);
+    const link = item?.querySelector('a[href*="/video/"]') as HTMLAnchorElement | null;
+    return link ? extractTikTokVideoId(link.href) : null;
+  }
+
+  private getFeedItem(video: HTMLVideoElement): Element | null {
+    return video.closest('[data-e2e="recommend-list-item-container"], article, [data-e2e="browse-video"]');
+  }
+
+  protected getVideoTitle(): string {
+    const item = this.currentVideo ? this.getFeedItem(this.currentVideo) : null;
+    const description = (item || document).querySelector('[data-e2e="video-desc"], [data-e2e="browse-video-desc"]');
+    return description?.textContent?.trim() || document.title;
+  }
+
+  protected getVideoCategory(): Category {
+    return 'tiktok';
+  }
+}
+
+platformRegistry.register('tiktok', () => new TikTokModule());
\ No newline at end of file
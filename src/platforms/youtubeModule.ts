@@ -1,6 +1,7 @@
-import { PlatformModule } from './platformInterface';
+import { PlatformModule, PlatformModuleHandle } from './platformInterface';
+import { platformRegistry } from './registry';
 import { TrackerEvent, Platform, Category } from '../types';
-import { extractVideoId, generateEventId } from '../utils';
+import { extractVideoId, findActiveVideo, generateEventId } from '../utils';
 
 export class YouTubeModule implements PlatformModule {
   platformId = 'youtube';
@@ -8,21 +9,25 @@ export class YouTubeModule implements PlatformModule {
   private currentVideoId: string | null = null;
   private observers: MutationObserver[] = [];
   private eventListeners: Array<{ element: Element | Window; event: string; handler: EventListener }> = [];
+  private globalListeners: Array<{ element: Document | Window; event: string; handler: EventListener; capture: boolean }> = [];
   private emit: ((event: TrackerEvent) => void) | null = null;
   private lastTimeUpdate = 0;
   private timeUpdateThrottle = 1000; // 1 second
+  private originalPushState: History['pushState'] | null = null;
+  private originalReplaceState: History['replaceState'] | null = null;
 
   matches(url: string): boolean {
     return url.includes('youtube.com');
   }
 
-  init(root: Document, emit: (event: TrackerEvent) => void): { destroy(): void } {
+  init(root: Document, emit: (event: TrackerEvent) => void): PlatformModuleHandle {
     this.emit = emit;
     this.setupVideoDetection(root);
     this.setupNavigationDetection();
     
     return {
-      destroy: () => this.destroy()
+      destroy: () => this.destroy(),
+      pause: () => this.currentVideo?.pause()
     };
   }
 
@@ -53,12 +58,19 @@ export class YouTubeModule implements PlatformModule {
     });
 
     this.observers.push(observer);
+
+    // Shorts and hover previews start playing without adding nodes. Media events
+    // don't bubble, so catch them in the capture phase.
+    this.addGlobalListener(root, 'play', () => this.detectVideo(root), true);
+    this.addGlobalListener(root, 'volumechange', () => this.detectVideo(root), true);
   }
 
   private setupNavigationDetection(): void {
     // Listen for URL changes (SPA navigation)
-    const originalPushState = history.pushState;
-    const originalReplaceState = history.replaceState;
+    this.originalPushState = history.pushState;
+    this.originalReplaceState = history.replaceState;
+    const originalPushState = this.originalPushState;
+    const originalReplaceState = this.originalReplaceState;
 
     const handleNavigation = () => {
       setTimeout(() => {
@@ -76,11 +88,13 @@ export class YouTubeModule implements PlatformModule {
       handleNavigation();
     };
 
-    this.addEventListener(window, 'popstate', handleNavigation);
+    this.addGlobalListener(window, 'popstate', handleNavigation, false);
   }
 
   private detectVideo(root: Document): void {
-    const video = root.querySelector('video') as HTMLVideoElement;
+    // Several players stay mounted (Shorts feed, miniplayer, hover previews), so
+    // prefer the one that is playing, visible and unmuted
+    const video = findActiveVideo(root, 'video', candidate => !this.isInlinePreview(candidate));
     
     if (video && video !== this.currentVideo) {
       this.setupVideoListeners(video);
@@ -115,6 +129,19 @@ export class YouTubeModule implements PlatformModule {
     this.eventListeners.push({ element, event, handler });
   }
 
+  private addGlobalListener(element: Document | Window, event: string, handler: EventListener, capture: boolean): void {
+    element.addEventListener(event, handler, capture);
+    this.globalListeners.push({ element, event, handler, capture });
+  }
+
+  /**
+   * Home page and search hover previews play muted in an inline player that
+   * doesn't change the URL; they aren't a deliberate watch, so they're ignored.
+   */
+  private isInlinePreview(video: HTMLVideoElement): boolean {
+    return video.closest('ytd-video-preview, #inline-preview-player, #video-preview') !== null;
+  }
+
   private getCurrentVideoId(): string | null {
     return extractVideoId(window.location.href);
   }
@@ -127,14 +154,54 @@ export class YouTubeModule implements PlatformModule {
       return 'shorts';
     }
     
-    // Check video duration for regular videos
-    if (this.currentVideo && this.currentVideo.duration > 0 && this.currentVideo.duration < 60) {
+    // Check video duration for regular videos (an ad's duration says nothing about the video)
+    if (this.currentVideo && !this.isAdPlaying() && this.currentVideo.duration > 0 && this.currentVideo.duration < 60) {
       return 'shorts';
     }
     
     return 'regular';
   }
 
+  /**
+   * The player root carries `ad-showing` / `ad-interrupting` while a pre-roll or
+   * mid-roll plays in the same <video> element as the content.
+   */
+  private isAdPlaying(): boolean {
+    const player = this.currentVideo?.closest('.html5-video-player');
+    return !!player && (player.classList.contains('ad-showing') || player.classList.contains('ad-interrupting'));
+  }
+
+  /**
+   * Reads the uploader from the owner block of the watch page or of the active
+   * Short, never from a player that isn't the one in view. The same channel can
+   * be linked as `/@handle` or `/channel/UC...`; the handle is preferred so time
+   * isn't split across two keys, and the `UC...` ID is kept for channels without one.
+   */
+  private getChannelInfo(): { channelId?: string; channelName?: string } {
+    const owner = window.location.pathname.startsWith('/shorts')
+      ? document.querySelector('ytd-reel-video-renderer[is-active]')
+      : document.querySelector('ytd-watch-flexy ytd-video-owner-renderer');
+    if (!owner) return {};
+
+    const nameLink = owner.querySelector(
+      '#channel-name a, .ytReelChannelBarViewModelChannelName a'
+    ) as HTMLAnchorElement | null;
+    if (!nameLink) return {};
+
+    // The watch page owner block only links the channel (avatar and name); a Short's
+    // renderer also links mentions in its title, so only its name link is used there
+    const links = owner.tagName === 'YTD-VIDEO-OWNER-RENDERER' ? Array.from(owner.querySelectorAll('a[href]')) : [nameLink];
+    const hrefs = links.map(link => link.getAttribute('href') || '');
+    const handle = hrefs.map(href => href.match(/\/(@[^/?#]+)/)?.[1]).find(Boolean);
+    const channelId = hrefs.map(href => href.match(/\/channel\/(UC[\w-]+)/)?.[1]).find(Boolean);
+    if (!handle && !channelId) return {};
+
+    return {
+      channelId: handle || channelId,
+      channelName: nameLink.textContent?.trim() || undefined
+    };
+  }
+
   private createEvent(type: TrackerEvent['type'], additionalData: Partial<TrackerEvent> = {}): TrackerEvent {
     const videoId = this.getCurrentVideoId();
     const category = this.getVideoCategory();
@@ -147,11 +214,15 @@ export class YouTubeModule implements PlatformModule {
       type,
       currentTime: this.currentVideo?.currentTime ? Math.floor(this.currentVideo.currentTime * 1000) : undefined,
       duration: this.currentVideo?.duration ? Math.floor(this.currentVideo.duration * 1000) : undefined,
+      muted: this.currentVideo ? this.currentVideo.muted || this.currentVideo.volume === 0 : undefined,
+      playbackRate: this.currentVideo?.playbackRate,
       meta: {
         videoId: videoId || undefined,
         title: document.title,
-        url: window.location.href
+        url: window.location.href,
+        ...this.getChannelInfo()
       },
+      isAd: this.isAdPlaying() || undefined,
       ...additionalData
     };
   }
@@ -211,16 +282,33 @@ export class YouTubeModule implements PlatformModule {
   }
 
   private destroy(): void {
+    // The platform was switched off or the page is going away; close the open session
+    if (this.emit && this.currentVideo && this.getCurrentVideoId()) {
+      this.emit(this.createEvent('close'));
+    }
+
     // Clean up observers
     this.observers.forEach(observer => observer.disconnect());
     this.observers = [];
     
     // Clean up event listeners
     this.cleanupVideoListeners();
+    this.globalListeners.forEach(({ element, event, handler, capture }) => {
+      element.removeEventListener(event, handler, capture);
+    });
+    this.globalListeners = [];
+
+    // Restore history patches
+    if (this.originalPushState) history.pushState = this.originalPushState;
+    if (this.originalReplaceState) history.replaceState = this.originalReplaceState;
+    this.originalPushState = null;
+    this.originalReplaceState = null;
     
     // Reset state
     this.currentVideo = null;
     this.currentVideoId = null;
     this.emit = null;
   }
-}
\ No newline at end of file
+}
+
+platformRegistry.register('youtube', () => new YouTubeModule());
\ No newline at end of file
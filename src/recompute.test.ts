@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { DailyAggregate, TrackerEvent } from './types';
+import { DEFAULT_COUNTING_RULES } from './counting';
+import { carryImportedCounts, diffAggregates, replayEvents } from './recompute';
+
+// Noon local time on 2024-03-04, clear of day boundaries
+const BASE = new Date(2024, 2, 4, 12).getTime();
+
+function createEvent(type: TrackerEvent['type'], offsetMs: number, overrides: Partial<TrackerEvent> = {}): TrackerEvent {
+  return {
+    timestamp: BASE + offsetMs,
+    platform: 'youtube',
+    category: 'regular',
+    type,
+    duration: 300000,
+    meta: { videoId: 'video-1' },
+    tabId: 1,
+    ...overrides
+  };
+}
+
+// Throttled time updates once a second with the position moving along
+function playing(fromMs: number, toMs: number, positionAtFromMs: number): TrackerEvent[] {
+  const events: TrackerEvent[] = [];
+  for (let offset = fromMs; offset <= toMs; offset += 1000) {
+    events.push(createEvent('time_update', offset, { currentTime: positionAtFromMs + offset - fromMs }));
+  }
+  return events;
+}
+
+function createAggregate(overrides: Partial<DailyAggregate> = {}): DailyAggregate {
+  return {
+    key: '2024-03-04::youtube::regular',
+    date: '2024-03-04',
+    platform: 'youtube',
+    category: 'regular',
+    watchMs: 0,
+    attendedMs: 0,
+    contentMs: 0,
+    count: 0,
+    ...overrides
+  };
+}
+
+describe('replayEvents', () => {
+  it('rebuilds what the live path writes for a recorded session', () => {
+    // Start, five seconds of playback (one with the tab hidden), a three second
+    // mid-roll, a minute paused, seven more seconds and the end
+    const events = [
+      createEvent('start', 0, { currentTime: 0 }),
+      ...playing(1000, 5000, 1000),
+      createEvent('time_update', 6000, { isAd: true, currentTime: 0, duration: 15000 }),
+      createEvent('time_update', 7000, { isAd: true, currentTime: 1000, duration: 15000 }),
+      createEvent('time_update', 8000, { isAd: true, currentTime: 2000, duration: 15000 }),
+      createEvent('time_update', 9000, { currentTime: 5500 }),
+      createEvent('pause', 10000, { currentTime: 6500 }),
+      createEvent('start', 70000, { currentTime: 6500 }),
+      ...playing(71000, 77000, 7500),
+      createEvent('end', 78000, { currentTime: 14500 })
+    ];
+    events[2] = { ...events[2], pageVisible: false };
+
+    // Ad time and the paused minute add nothing; content follows the position,
+    // so it misses the half second the player skipped back over after the ad
+    expect(replayEvents(events, DEFAULT_COUNTING_RULES)).toEqual([
+      createAggregate({ watchMs: 15000, attendedMs: 14000, contentMs: 14500, count: 1 })
+    ]);
+  });
+
+  it('counts a view once the rules are met, without waiting for the end', () => {
+    const events = [createEvent('start', 0, { currentTime: 0 }), ...playing(1000, 10000, 1000)];
+
+    expect(replayEvents(events, DEFAULT_COUNTING_RULES)).toEqual([
+      createAggregate({ watchMs: 10000, attendedMs: 10000, contentMs: 10000, count: 1 })
+    ]);
+    expect(replayEvents(events, { ...DEFAULT_COUNTING_RULES, minWatchSeconds: 30, minWatchPercent: 0 })[0].count).toBe(0);
+  });
+
+  it('keeps the session open when an ad ends', () => {
+    const events = [
+      createEvent('start', 0, { isAd: true, currentTime: 0, duration: 5000 }),
+      createEvent('time_update', 1000, { isAd: true, currentTime: 1000, duration: 5000 }),
+      createEvent('end', 2000, { isAd: true, currentTime: 2000, duration: 5000 }),
+      createEvent('start', 3000, { currentTime: 0 }),
+      ...playing(4000, 6000, 1000),
+      createEvent('end', 7000, { currentTime: 4000 })
+    ];
+
+    const [aggregate] = replayEvents(events, DEFAULT_COUNTING_RULES);
+    expect(aggregate.count).toBe(1);
+    expect(aggregate.watchMs).toBe(4000);
+  });
+
+  it('only counts a session closed mid-video under the counting rules', () => {
+    const closedEarly = [createEvent('start', 0, { currentTime: 0 }), ...playing(1000, 3000, 1000), createEvent('close', 4000, { currentTime: 4000 })];
+    expect(replayEvents(closedEarly, DEFAULT_COUNTING_RULES)).toEqual([
+      createAggregate({ watchMs: 4000, attendedMs: 4000, contentMs: 4000 })
+    ]);
+
+    const endedEarly = [...closedEarly.slice(0, -1), createEvent('end', 4000, { currentTime: 4000 })];
+    expect(replayEvents(endedEarly, DEFAULT_COUNTING_RULES)[0].count).toBe(1);
+  });
+
+  it('keeps each tab its own session and skips events without a video', () => {
+    const events = [
+      createEvent('start', 0, { currentTime: 0 }),
+      createEvent('end', 1000, { currentTime: 1000 }),
+      createEvent('start', 0, { currentTime: 0, tabId: 2 }),
+      createEvent('end', 1000, { currentTime: 1000, tabId: 2 }),
+      createEvent('end', 2000, { meta: {} })
+    ];
+
+    expect(replayEvents(events, DEFAULT_COUNTING_RULES)).toEqual([
+      createAggregate({ watchMs: 2000, attendedMs: 2000, contentMs: 2000, count: 2 })
+    ]);
+  });
+
+  it('splits time across midnight and dates the count by when it was earned', () => {
+    const midnight = new Date(2024, 2, 5).getTime() - BASE;
+    const events = [createEvent('start', midnight - 5000, { currentTime: 0 }), ...playing(midnight - 4000, midnight + 6000, 1000)];
+
+    const aggregates = replayEvents(events, DEFAULT_COUNTING_RULES);
+    expect(aggregates).toEqual([
+      createAggregate({ watchMs: 4000, attendedMs: 4000, contentMs: 4000 }),
+      createAggregate({
+        key: '2024-03-05::youtube::regular',
+        date: '2024-03-05',
+        watchMs: 7000,
+        attendedMs: 7000,
+        contentMs: 7000,
+        count: 1
+      })
+    ]);
+  });
+});
+
+describe('carryImportedCounts', () => {
+  it('adds imported views back on top of the rebuilt counts', () => {
+    const current = [
+      createAggregate({ watchMs: 5000, count: 3, importedCount: 2 }),
+      createAggregate({ key: '2020-01-01::youtube::regular', date: '2020-01-01', count: 1, importedCount: 1 })
+    ];
+    const rebuilt = [createAggregate({ watchMs: 6000, count: 1 })];
+
+    expect(carryImportedCounts(current, rebuilt)).toEqual([
+      createAggregate({ watchMs: 6000, count: 3, importedCount: 2 }),
+      createAggregate({ key: '2020-01-01::youtube::regular', date: '2020-01-01', count: 1, importedCount: 1 })
+    ]);
+  });
+});
+
+describe('diffAggregates', () => {
+  it('lists added, changed and removed aggregates and skips unchanged ones', () => {
+    const unchanged = createAggregate({ key: 'a', watchMs: 1000.4 });
+    const current = [unchanged, createAggregate({ key: 'b', count: 1 }), createAggregate({ key: 'c' })];
+    const rebuilt = [{ ...unchanged, watchMs: 1000 }, createAggregate({ key: 'b', count: 2 }), createAggregate({ key: 'd' })];
+
+    const changes = diffAggregates(current, rebuilt);
+    expect(changes.map(change => change.key)).toEqual(['b', 'c', 'd']);
+    expect(changes[0].before?.count).toBe(1);
+    expect(changes[0].after?.count).toBe(2);
+    expect(changes[1].after).toBeNull();
+    expect(changes[2].before).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,132 @@
+import {
+  AggregateChange,
+  AggregateTotals,
+  CountingRules,
+  DailyAggregate,
+  SessionState,
+  TrackerEvent
+} from './types';
+import { applySessionEvent } from './sessions';
+
+/**
+ * Rebuilds daily aggregates from raw events by running them through the same
+ * session reducer as BackgroundEngine.handleTrackEvent, and keeping the video
+ * time and counts it reports.
+ *
+ * Events stored before they carried `tabId` share one session per video, and
+ * ones without `userIdle` are treated as not idle.
+ */
+export function replayEvents(events: TrackerEvent[], rules: CountingRules): DailyAggregate[] {
+  const sessions = new Map<string, SessionState>();
+  const aggregates = new Map<string, DailyAggregate>();
+
+  const addToAggregate = (date: string, session: SessionState, deltas: Partial<AggregateTotals>) => {
+    const key = `${date}::${session.platform}::${session.category}`;
+    const aggregate = aggregates.get(key) || {
+      key,
+      date,
+      platform: session.platform,
+      category: session.category,
+      watchMs: 0,
+      attendedMs: 0,
+      contentMs: 0,
+      count: 0
+    };
+
+    aggregate.watchMs += deltas.watchMs || 0;
+    aggregate.attendedMs += deltas.attendedMs || 0;
+    aggregate.contentMs += deltas.contentMs || 0;
+    aggregate.count += deltas.count || 0;
+    aggregates.set(key, aggregate);
+  };
+
+  const ordered = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  for (const event of ordered) {
+    if (!event.meta?.videoId) continue;
+
+    for (const effect of applySessionEvent(sessions, `${event.tabId ?? ''}::${event.meta.videoId}`, event, rules)) {
+      if (effect.type === 'watch') {
+        addToAggregate(effect.date, effect.session, {
+          watchMs: effect.watchMs,
+          attendedMs: effect.attendedMs,
+          contentMs: effect.contentMs
+        });
+      } else if (effect.type === 'count') {
+        addToAggregate(effect.date, effect.session, { count: 1 });
+      }
+    }
+  }
+
+  return Array.from(aggregates.values());
+}
+
+/**
+ * Imported views have no raw events behind them, so a rebuild keeps them from
+ * the current aggregates instead of dropping them.
+ */
+export function carryImportedCounts(current: DailyAggregate[], rebuilt: DailyAggregate[]): DailyAggregate[] {
+  const rebuiltByKey = new Map(rebuilt.map(agg => [agg.key, agg]));
+
+  for (const aggregate of current) {
+    if (!aggregate.importedCount) continue;
+
+    const target = rebuiltByKey.get(aggregate.key) || {
+      ...aggregate,
+      watchMs: 0,
+      attendedMs: 0,
+      contentMs: 0,
+      count: 0,
+      importedCount: 0
+    };
+    target.count += aggregate.importedCount;
+    target.importedCount = (target.importedCount || 0) + aggregate.importedCount;
+    rebuiltByKey.set(aggregate.key, target);
+  }
+
+  return Array.from(rebuiltByKey.values());
+}
+
+function toTotals(aggregate: DailyAggregate | undefined): AggregateTotals | null {
+  if (!aggregate) return null;
+
+  return {
+    watchMs: aggregate.watchMs,
+    attendedMs: aggregate.attendedMs || 0,
+    contentMs: aggregate.contentMs || 0,
+    count: aggregate.count
+  };
+}
+
+/**
+ * Lists the aggregates a rebuild would add, change or remove, ordered by key.
+ */
+export function diffAggregates(current: DailyAggregate[], rebuilt: DailyAggregate[]): AggregateChange[] {
+  const currentByKey = new Map(current.map(agg => [agg.key, agg]));
+  const rebuiltByKey = new Map(rebuilt.map(agg => [agg.key, agg]));
+  const keys = Array.from(new Set([...currentByKey.keys(), ...rebuiltByKey.keys()])).sort();
+
+  const changes: AggregateChange[] = [];
+  for (const key of keys) {
+    const reference = (currentByKey.get(key) || rebuiltByKey.get(key))!;
+    const before = toTotals(currentByKey.get(key));
+    const after = toTotals(rebuiltByKey.get(key));
+
+    const same = before && after &&
+      Math.round(before.watchMs) === Math.round(after.watchMs) &&
+      Math.round(before.attendedMs) === Math.round(after.attendedMs) &&
+      Math.round(before.contentMs) === Math.round(after.contentMs) &&
+      before.count === after.count;
+    if (same) continue;
+
+    changes.push({
+      key,
+      date: reference.date,
+      platform: reference.platform,
+      category: reference.category,
+      before,
+      after
+    });
+  }
+
+  return changes;
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { FocusSchedule } from './types';
+import { evaluateSchedules, isScheduleActive, isScheduleDayCompliant, scheduleMatches } from './schedules';
+
+// 2024-03-04 is a Monday
+const MONDAY = 1;
+const TUESDAY = 2;
+
+function at(day: number, hours: number, minutes: number = 0): Date {
+  return new Date(2024, 2, 3 + day, hours, minutes);
+}
+
+function createSchedule(overrides: Partial<FocusSchedule> = {}): FocusSchedule {
+  return {
+    id: 'work',
+    name: 'Work',
+    enabled: true,
+    days: [MONDAY],
+    start: '09:00',
+    end: '17:00',
+    platform: 'youtube',
+    category: 'shorts',
+    mode: 'block',
+    ...overrides
+  };
+}
+
+describe('isScheduleActive', () => {
+  it('is active from the start up to, not including, the end', () => {
+    const schedule = createSchedule();
+    expect(isScheduleActive(schedule, at(MONDAY, 8, 59))).toBe(false);
+    expect(isScheduleActive(schedule, at(MONDAY, 9))).toBe(true);
+    expect(isScheduleActive(schedule, at(MONDAY, 16, 59))).toBe(true);
+    expect(isScheduleActive(schedule, at(MONDAY, 17))).toBe(false);
+  });
+
+  it('only runs on its days and while enabled', () => {
+    expect(isScheduleActive(createSchedule(), at(TUESDAY, 10))).toBe(false);
+    expect(isScheduleActive(createSchedule({ enabled: false }), at(MONDAY, 10))).toBe(false);
+  });
+
+  it('gives the early hours of an overnight window to the day it started', () => {
+    const schedule = createSchedule({ start: '22:00', end: '06:00' });
+    expect(isScheduleActive(schedule, at(MONDAY, 23))).toBe(true);
+    expect(isScheduleActive(schedule, at(TUESDAY, 5))).toBe(true);
+    expect(isScheduleActive(schedule, at(MONDAY, 5))).toBe(false);
+    expect(isScheduleActive(schedule, at(TUESDAY, 23))).toBe(false);
+  });
+});
+
+describe('scheduleMatches', () => {
+  it('matches like a budget', () => {
+    expect(scheduleMatches(createSchedule(), 'youtube', 'shorts')).toBe(true);
+    expect(scheduleMatches(createSchedule(), 'youtube', 'regular')).toBe(false);
+    expect(scheduleMatches(createSchedule({ platform: 'all', category: 'all' }), 'tiktok', 'tiktok')).toBe(true);
+  });
+});
+
+describe('evaluateSchedules', () => {
+  const now = at(MONDAY, 10).getTime();
+
+  it('turns a block window into an exceeded zero-minute budget', () => {
+    const [status] = evaluateSchedules([createSchedule()], {}, {}, now);
+    expect(status).toMatchObject({
+      budgetId: 'schedule:work',
+      limitMs: 0,
+      exceeded: true,
+      enforcement: 'block',
+      scheduleName: 'Work'
+    });
+  });
+
+  it('measures a budget window against the time watched inside it', () => {
+    const schedule = createSchedule({ mode: 'budget', budgetMinutes: 20 });
+    const [under] = evaluateSchedules([schedule], { work: 10 * 60000 }, {}, now);
+    expect(under.exceeded).toBe(false);
+    expect(under.remainingMs).toBe(10 * 60000);
+
+    const [over] = evaluateSchedules([schedule], { work: 20 * 60000 }, {}, now);
+    expect(over.exceeded).toBe(true);
+  });
+
+  it('leaves out inactive schedules and keeps live overrides', () => {
+    expect(evaluateSchedules([createSchedule({ days: [TUESDAY] })], {}, {}, now)).toEqual([]);
+
+    const [status] = evaluateSchedules([createSchedule()], {}, { 'schedule:work': now + 1000 }, now);
+    expect(status.overriddenUntil).toBe(now + 1000);
+  });
+});
+
+describe('isScheduleDayCompliant', () => {
+  it('tolerates a minute of watching in a block window', () => {
+    expect(isScheduleDayCompliant(createSchedule(), 60000, 0)).toBe(true);
+    expect(isScheduleDayCompliant(createSchedule(), 60001, 0)).toBe(false);
+  });
+
+  it('holds a budget window to its budget', () => {
+    const schedule = createSchedule({ mode: 'budget', budgetMinutes: 20 });
+    expect(isScheduleDayCompliant(schedule, 20 * 60000, 0)).toBe(true);
+    expect(isScheduleDayCompliant(schedule, 20 * 60000 + 1, 0)).toBe(false);
+  });
+
+  it('breaks the day on any override', () => {
+    expect(isScheduleDayCompliant(createSchedule(), 0, 1)).toBe(false);
+  });
+});
\ No newline at end of file
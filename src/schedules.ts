@@ -0,0 +1,74 @@
+import { BudgetStatus, FocusSchedule, Platform, Category } from './types';
+import { budgetMatches } from './budgets';
+
+export const SCHEDULE_BUDGET_PREFIX = 'schedule:';
+// Seconds of watching a 'block' window tolerates before the day counts as broken
+const BLOCK_COMPLIANCE_TOLERANCE_MS = 60000;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function isScheduleActive(schedule: FocusSchedule, now: Date = new Date()): boolean {
+  if (!schedule.enabled) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(schedule.start);
+  const end = toMinutes(schedule.end);
+  const today = now.getDay();
+
+  if (start < end) {
+    return schedule.days.includes(today) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the evening part belongs to today, the early hours to yesterday's window
+  const yesterday = (today + 6) % 7;
+  return (schedule.days.includes(today) && minutes >= start) ||
+    (schedule.days.includes(yesterday) && minutes < end);
+}
+
+export function scheduleMatches(schedule: FocusSchedule, platform: Platform, category: Category): boolean {
+  return budgetMatches(schedule, platform, category);
+}
+
+/**
+ * Turns the active schedules into budget statuses so the content script can
+ * enforce them through the same pause/interstitial path as daily budgets.
+ * `usage` holds today's watch time inside each schedule's window.
+ */
+export function evaluateSchedules(
+  schedules: FocusSchedule[],
+  usage: Record<string, number>,
+  overrides: Record<string, number> = {},
+  now: number = Date.now()
+): BudgetStatus[] {
+  return schedules
+    .filter(schedule => isScheduleActive(schedule, new Date(now)))
+    .map(schedule => {
+      const budgetId = `${SCHEDULE_BUDGET_PREFIX}${schedule.id}`;
+      const limitMs = schedule.mode === 'budget' ? (schedule.budgetMinutes || 0) * 60000 : 0;
+      const usedMs = usage[schedule.id] || 0;
+
+      return {
+        budgetId,
+        platform: schedule.platform,
+        category: schedule.category,
+        limitMs,
+        usedMs,
+        remainingMs: Math.max(0, limitMs - usedMs),
+        warning: false,
+        exceeded: usedMs >= limitMs,
+        enforcement: 'block',
+        overriddenUntil: overrides[budgetId] > now ? overrides[budgetId] : undefined,
+        scheduleName: schedule.name
+      };
+    });
+}
+
+export function isScheduleDayCompliant(schedule: FocusSchedule, watchMs: number, overrides: number): boolean {
+  if (overrides > 0) return false;
+  return schedule.mode === 'budget'
+    ? watchMs <= (schedule.budgetMinutes || 0) * 60000
+    : watchMs <= BLOCK_COMPLIANCE_TOLERANCE_MS;
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { CountingRules, Platform, SessionState, TrackerEvent } from './types';
+import { isAttended, shouldCountSession, trackPlaybackPosition } from './counting';
+import { getDateString, isValidTimeDelta } from './utils';
+
+// A session untouched for longer than this is settled before it takes its next event
+export const STALE_SESSION_MS = 60000;
+
+/**
+ * What an event did to the sessions, for the caller to write: the background
+ * into IndexedDB, the replay into rebuilt aggregates. Sessions are already
+ * updated when the effects come back.
+ */
+export type SessionEffect =
+  // A new session, whose video gets a history record
+  | { type: 'open'; session: SessionState; event: TrackerEvent }
+  // Video time since the last update, attributed to the day it was watched
+  | { type: 'watch'; session: SessionState; event: TrackerEvent; date: string; watchMs: number; attendedMs: number; contentMs: number }
+  // Ad time, kept out of the video's; `breaks` is 1 when the session enters an ad break
+  | { type: 'ad'; platform: Platform; date: string; adMs: number; breaks: number }
+  // The session earned its view, dated by its last update
+  | { type: 'count'; session: SessionState; date: string };
+
+function countSession(session: SessionState): SessionEffect[] {
+  if (session.counted) return [];
+
+  session.counted = true;
+  return [{ type: 'count', session, date: getDateString(new Date(session.lastUpdateTime)) }];
+}
+
+/**
+ * Counts a session if it has earned its view under the rules. The background
+ * also calls this for sessions it finds stale when the worker wakes up.
+ */
+export function settleSession(session: SessionState, rules: CountingRules): SessionEffect[] {
+  return shouldCountSession(session, rules) ? countSession(session) : [];
+}
+
+function openSession(sessions: Map<string, SessionState>, sessionKey: string, event: TrackerEvent): SessionEffect[] {
+  // Resuming after a pause or an ad keeps the session, so the view isn't counted twice
+  const existing = sessions.get(sessionKey);
+  if (event.type === 'start' && existing) {
+    existing.lastUpdateTime = event.timestamp;
+    if (!event.isAd) trackPlaybackPosition(existing, event);
+    return [];
+  }
+
+  const session: SessionState = {
+    videoId: event.meta?.videoId || '',
+    platform: event.platform,
+    category: event.category,
+    startTime: event.timestamp,
+    lastUpdateTime: event.timestamp,
+    totalWatchMs: 0,
+    counted: false,
+    channelId: event.meta?.channelId,
+    channelName: event.meta?.channelName,
+    lastPositionMs: event.isAd ? undefined : event.currentTime,
+    durationMs: event.isAd ? undefined : event.duration
+  };
+  sessions.set(sessionKey, session);
+
+  return [{ type: 'open', session, event }];
+}
+
+function updateSession(session: SessionState, event: TrackerEvent, rules: CountingRules): SessionEffect[] {
+  const timeDelta = event.timestamp - session.lastUpdateTime;
+  const date = getDateString(new Date(event.timestamp));
+
+  // Channel info often renders after playback starts
+  if (event.meta?.channelId) {
+    session.channelId = event.meta.channelId;
+    session.channelName = event.meta.channelName || session.channelName;
+  }
+
+  const contentDelta = event.isAd ? 0 : trackPlaybackPosition(session, event, isValidTimeDelta(timeDelta) ? timeDelta : 0);
+
+  // Count each ad break once, when the session enters it
+  const adStarted = !!event.isAd && !session.inAd;
+  session.inAd = !!event.isAd;
+
+  if (!isValidTimeDelta(timeDelta)) {
+    return adStarted ? [{ type: 'ad', platform: session.platform, date, adMs: 0, breaks: 1 }] : [];
+  }
+
+  session.lastUpdateTime = event.timestamp;
+  if (event.isAd) {
+    return [{ type: 'ad', platform: session.platform, date, adMs: timeDelta, breaks: adStarted ? 1 : 0 }];
+  }
+
+  session.totalWatchMs += timeDelta;
+  session.totalContentMs = (session.totalContentMs || 0) + contentDelta;
+
+  return [
+    {
+      type: 'watch',
+      session,
+      event,
+      date,
+      watchMs: timeDelta,
+      attendedMs: isAttended(event, !!event.userIdle) ? timeDelta : 0,
+      contentMs: contentDelta
+    },
+    ...settleSession(session, rules)
+  ];
+}
+
+/**
+ * The session state machine, shared by BackgroundEngine and the replay so a
+ * rebuild writes what the live path did. 'start' opens or resumes a session
+ * and 'navigation' replaces it; time updates and pauses add valid deltas (ads
+ * kept apart) and count the view once the rules are met; 'end' always counts
+ * it, 'close' (the page or module going away) only under the rules. A session
+ * that went stale is settled first, as on a worker wake-up.
+ *
+ * Idleness is read from `event.userIdle`, which the background stamps on every
+ * event it stores.
+ */
+export function applySessionEvent(
+  sessions: Map<string, SessionState>,
+  sessionKey: string,
+  event: TrackerEvent,
+  rules: CountingRules
+): SessionEffect[] {
+  const effects: SessionEffect[] = [];
+  const existing = sessions.get(sessionKey);
+  if (existing && event.timestamp - existing.lastUpdateTime > STALE_SESSION_MS) {
+    effects.push(...settleSession(existing, rules));
+  }
+
+  switch (event.type) {
+    case 'start':
+    case 'navigation':
+      effects.push(...openSession(sessions, sessionKey, event));
+      break;
+
+    case 'time_update':
+      // Playback that was already running when its session was lost picks up again
+      if (!existing) effects.push(...openSession(sessions, sessionKey, event));
+      effects.push(...updateSession(sessions.get(sessionKey)!, event, rules));
+      break;
+
+    case 'pause':
+      // Update the session but don't end it
+      if (existing) effects.push(...updateSession(existing, event, rules));
+      break;
+
+    case 'end':
+    case 'close':
+      if (!existing) break;
+      effects.push(...updateSession(existing, event, rules));
+
+      // An ad ending hands back to the video, which keeps its session
+      if (event.type === 'end' && event.isAd) break;
+
+      // Playing through to the end always earns the view
+      effects.push(...(event.type === 'end' ? countSession(existing) : settleSession(existing, rules)));
+      sessions.delete(sessionKey);
+      break;
+  }
+
+  return effects;
+}
\ No newline at end of file
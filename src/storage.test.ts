@@ -0,0 +1,136 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { storage as storageSingleton } from './storage';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from './backup';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { getDateString } from './utils';
+
+let storage: typeof storageSingleton;
+
+// Every test gets an empty database and a fresh singleton, and seeds its own records
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  ({ storage } = await import('./storage'));
+});
+
+describe('rolled-up aggregates', () => {
+  it('are still read back, as weeks dated by their Monday', async () => {
+    const today = getDateString();
+    await storage.importWatchHistory([
+      { videoId: 'imported-1', title: 'Old video', url: 'https://www.youtube.com/watch?v=imported-1', timestamp: new Date(2020, 0, 7, 12).getTime() }
+    ]);
+    // 2020-01-06 is a Monday
+    await storage.updateAggregate('2020-01-06', 'youtube', 'regular', { watchMs: 60000, attendedMs: 30000, contentMs: 50000, count: 2 });
+    await storage.updateAggregate('2020-01-08', 'youtube', 'regular', { watchMs: 30000, count: 1 });
+    await storage.updateAggregate(today, 'youtube', 'regular', { watchMs: 10000, count: 1 });
+
+    await storage.setRetention({ rawEvents: 'days', rawEventDays: 30, rollupAfterMonths: 3 });
+    expect((await storage.applyRetention()).aggregatesRolledUp).toBe(3);
+
+    const range = { start: '2020-01-01', end: today };
+    expect((await storage.getDailyAggregates(range)).map(agg => agg.date)).toEqual([today]);
+
+    const week = (await storage.getAggregates(range)).find(agg => agg.date === '2020-01-06');
+    expect(week).toEqual({
+      key: '2020-01-06::youtube::regular',
+      date: '2020-01-06',
+      platform: 'youtube',
+      category: 'regular',
+      watchMs: 90000,
+      attendedMs: 30000,
+      contentMs: 50000,
+      count: 4,
+      importedCount: 1,
+      days: 3
+    });
+
+    const csv = (await storage.exportCSV(range)).split('\n');
+    expect(csv).toHaveLength(3);
+    expect(csv).toContain('2020-01-06,youtube,regular,1.5,0.5,0.83,4,3');
+  });
+});
+
+describe('importing over rolled-up days', () => {
+  it('skips entries from weeks that were tracked and rolled up', async () => {
+    // 2020-01-06 is a Monday
+    await storage.updateAggregate('2020-01-08', 'youtube', 'regular', { watchMs: 60000, count: 1 });
+    await storage.setRetention({ rawEvents: 'days', rawEventDays: 30, rollupAfterMonths: 3 });
+    await storage.applyRetention();
+
+    const entry = (videoId: string, day: number) => ({
+      videoId,
+      title: `Video ${videoId}`,
+      url: `https://www.youtube.com/watch?v=${videoId}`,
+      timestamp: new Date(2020, 0, day, 12).getTime()
+    });
+    const result = await storage.importWatchHistory([entry('before', 3), entry('tracked', 9)]);
+
+    expect(result).toMatchObject({ imported: 1, skippedTracked: 1, trackedSince: '2020-01-06' });
+    expect((await storage.getAggregates({ start: '2020-01-01', end: '2020-01-31' })).map(agg => [agg.date, agg.count])).toEqual([
+      ['2020-01-03', 1],
+      ['2020-01-06', 1]
+    ]);
+  });
+});
+
+describe('restoring a backup', () => {
+  // Taken at v11, before attended and content time were backfilled
+  const backup = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: 11,
+    createdAt: new Date(2019, 4, 2).getTime(),
+    stores: {
+      dailyAggregates: [
+        { key: '2019-05-01::youtube::shorts', date: '2019-05-01', platform: 'youtube', category: 'shorts', watchMs: 120000, count: 4 }
+      ]
+    }
+  };
+  const range = { start: '2019-05-01', end: '2019-05-01' };
+
+  it('previews without writing anything', async () => {
+    const preview = await storage.previewRestore(backup, 'merge');
+
+    expect(preview.warnings).toEqual([`Backup is from schema v11; its records are upgraded to v${LATEST_SCHEMA_VERSION} first`]);
+    expect(preview.stores).toMatchObject([{ name: 'dailyAggregates', backupRecords: 1, newRecords: 1 }]);
+    expect(await storage.getDailyAggregates(range)).toEqual([]);
+  });
+
+  it('runs the newer migrations over records from an older schema', async () => {
+    await storage.restoreBackup(backup, 'merge');
+
+    expect(await storage.getDailyAggregates(range)).toEqual([
+      { ...backup.stores.dailyAggregates[0], attendedMs: 0, contentMs: 0 }
+    ]);
+  });
+
+  it('rejects stores this version does not have', async () => {
+    const withUnknownStore = { ...backup, stores: { ...backup.stores, watchLater: [{ key: 'a' }] } };
+
+    await expect(storage.previewRestore(withUnknownStore, 'merge')).rejects.toThrow("Store watchLater in the backup doesn't exist in this version");
+  });
+});
+
+describe('importing a watch history', () => {
+  const entry = (videoId: string, day: number, channelId?: string) => ({
+    videoId,
+    title: `Video ${videoId}`,
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    channelId,
+    channelName: channelId && 'Some Channel',
+    timestamp: new Date(2018, 0, day, 12).getTime()
+  });
+
+  it('counts each entry once, across files and within one', async () => {
+    const entries = [entry('a', 1, 'UC123'), entry('b', 1, 'UC123'), entry('a', 2), entry('a', 2)];
+
+    expect(await storage.importWatchHistory(entries)).toMatchObject({ imported: 3, duplicates: 1, skippedTracked: 0 });
+    expect(await storage.importWatchHistory(entries)).toMatchObject({ imported: 0, duplicates: 4 });
+
+    const aggregates = await storage.getDailyAggregates({ start: '2018-01-01', end: '2018-01-02' });
+    expect(aggregates.map(agg => [agg.date, agg.count, agg.importedCount])).toEqual([['2018-01-01', 2, 2], ['2018-01-02', 1, 1]]);
+    expect((await storage.getChannelAggregates({ start: '2018-01-01', end: '2018-01-01' }))[0]).toMatchObject({ count: 2, importedCount: 2 });
+  });
+});
\ No newline at end of file
@@ -1,8 +1,39 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { TrackerEvent, DailyAggregate, DateRange, Platform, Category } from './types';
-import { getDateString } from './utils';
+import {
+  TrackerEvent,
+  DailyAggregate,
+  HourlyAggregate,
+  AggregateDeltas,
+  AdAggregate,
+  ChannelAggregate,
+  VideoRecord,
+  VideoHistoryQuery,
+  VideoHistoryPage,
+  ViewingSession,
+  BudgetOverrideEvent,
+  ScheduleComplianceRecord,
+  GoalResult,
+  BreakReminderRecord,
+  RollupAggregate,
+  RetentionSettings,
+  RetentionRun,
+  StorageUsage,
+  BackupFile,
+  BackupStoreName,
+  TakeoutEntry,
+  TakeoutImportResult,
+  ImportedWatch,
+  RestoreMode,
+  RestorePreview,
+  DateRange,
+  Platform,
+  Category
+} from './types';
+import { generateEventId, getDateString, getDaysAgo, getMonthsAgo, getWeekStart, getYesterday } from './utils';
+import { runMigrations, migrateRecords, LATEST_SCHEMA_VERSION, MIGRATIONS_SETTING_KEY } from './migrations';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, getRecordKey, validateBackup } from './backup';
 
-interface TrackerDB extends DBSchema {
+export interface TrackerDB extends DBSchema {
   events: {
     key: string;
     value: TrackerEvent;
@@ -17,39 +48,111 @@ interface TrackerDB extends DBSchema {
     key: string;
     value: any;
   };
+  adAggregates: {
+    key: string;
+    value: AdAggregate;
+    indexes: { 'by-date': string };
+  };
+  channelAggregates: {
+    key: string;
+    value: ChannelAggregate;
+    indexes: { 'by-date': string; 'by-channel': string };
+  };
+  videos: {
+    key: string;
+    value: VideoRecord;
+    indexes: { 'by-last-seen': number; 'by-platform': Platform };
+  };
+  viewingSessions: {
+    key: string;
+    value: ViewingSession;
+    indexes: { 'by-start': number };
+  };
+  hourlyAggregates: {
+    key: string;
+    value: HourlyAggregate;
+    indexes: { 'by-date': string };
+  };
+  budgetOverrides: {
+    key: string;
+    value: BudgetOverrideEvent;
+    indexes: { 'by-timestamp': number };
+  };
+  scheduleCompliance: {
+    key: string;
+    value: ScheduleComplianceRecord;
+    indexes: { 'by-date': string };
+  };
+  goalResults: {
+    key: string;
+    value: GoalResult;
+    indexes: { 'by-goal': string; 'by-date': string };
+  };
+  breakReminders: {
+    key: string;
+    value: BreakReminderRecord;
+    indexes: { 'by-timestamp': number };
+  };
+  weeklyAggregates: {
+    key: string;
+    value: RollupAggregate;
+    indexes: { 'by-period': string };
+  };
+  monthlyAggregates: {
+    key: string;
+    value: RollupAggregate;
+    indexes: { 'by-period': string };
+  };
+  importedWatches: {
+    key: string;
+    value: ImportedWatch;
+    indexes: { 'by-date': string };
+  };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Takeout entries written per transaction, so a long history doesn't hold one open for minutes
+const IMPORT_CHUNK_SIZE = 500;
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  rawEvents: 'days',
+  rawEventDays: 30,
+  rollupAfterMonths: 0
+};
+
 class StorageManager {
   private db: IDBPDatabase<TrackerDB> | null = null;
+  private retention: RetentionSettings = DEFAULT_RETENTION;
   private readonly DB_NAME = 'SocialWatchTracker';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = LATEST_SCHEMA_VERSION;
 
   async init(): Promise<void> {
     if (this.db) return;
 
-    this.db = await openDB<TrackerDB>(this.DB_NAME, this.DB_VERSION, {
-      upgrade(db) {
-        // Events store
-        const eventsStore = db.createObjectStore('events', { keyPath: 'eventId' });
-        eventsStore.createIndex('by-date', 'timestamp');
-        eventsStore.createIndex('by-platform', 'platform');
-
-        // Daily aggregates store
-        const aggregatesStore = db.createObjectStore('dailyAggregates', { keyPath: 'key' });
-        aggregatesStore.createIndex('by-date', 'date');
-        aggregatesStore.createIndex('by-platform', 'platform');
-
-        // Settings store
-        db.createObjectStore('settings', { keyPath: 'key' });
-      },
-    });
+    let migrationError: unknown = null;
+    try {
+      this.db = await openDB<TrackerDB>(this.DB_NAME, this.DB_VERSION, {
+        async upgrade(db, oldVersion, newVersion, transaction) {
+          try {
+            await runMigrations(db, transaction, oldVersion, newVersion ?? LATEST_SCHEMA_VERSION);
+          } catch (error) {
+            migrationError = error;
+          }
+        },
+      });
+    } catch (error) {
+      // The upgrade was rolled back; report the step that failed rather than the abort
+      throw migrationError || error;
+    }
 
-    // Clean up old events (older than 30 days)
-    await this.cleanupOldEvents();
+    // Cleanup itself runs on a schedule owned by the background
+    this.retention = { ...DEFAULT_RETENTION, ...(await this.getSetting('retention', {})) };
   }
 
   async addEvent(event: TrackerEvent): Promise<void> {
     if (!this.db) await this.init();
+    if (this.retention.rawEvents === 'none') return;
     
     const eventWithId = {
       ...event,
@@ -59,12 +162,41 @@ class StorageManager {
     await this.db!.add('events', eventWithId);
   }
 
+  async getEvents(startTime: number, endTime: number): Promise<TrackerEvent[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('events', 'by-date', IDBKeyRange.bound(startTime, endTime, false, true));
+  }
+
+  /**
+   * Oldest timestamp still guaranteed to have its raw events; anything older
+   * may already have been cleaned up.
+   */
+  getEventRetentionStart(): number {
+    if (this.retention.rawEvents === 'forever') return 0;
+    if (this.retention.rawEvents === 'none') return Date.now();
+    return Date.now() - this.retention.rawEventDays * DAY_MS;
+  }
+
+  // Days before this have been (or are about to be) folded into the rollup stores
+  getRollupCutoff(): string | null {
+    return this.retention.rollupAfterMonths > 0 ? getMonthsAgo(this.retention.rollupAfterMonths) : null;
+  }
+
+  getRetention(): RetentionSettings {
+    return this.retention;
+  }
+
+  async setRetention(settings: RetentionSettings): Promise<void> {
+    this.retention = { ...DEFAULT_RETENTION, ...settings };
+    await this.setSetting('retention', this.retention);
+  }
+
   async updateAggregate(
     date: string,
     platform: Platform,
     category: Category,
-    watchMsDelta: number,
-    countDelta: number = 0
+    deltas: AggregateDeltas
   ): Promise<void> {
     if (!this.db) await this.init();
 
@@ -76,16 +208,100 @@ class StorageManager {
       date,
       platform,
       category,
-      watchMs: (existing?.watchMs || 0) + watchMsDelta,
-      count: (existing?.count || 0) + countDelta
+      watchMs: (existing?.watchMs || 0) + (deltas.watchMs || 0),
+      attendedMs: (existing?.attendedMs || 0) + (deltas.attendedMs || 0),
+      contentMs: (existing?.contentMs || 0) + (deltas.contentMs || 0),
+      count: (existing?.count || 0) + (deltas.count || 0),
+      importedCount: existing?.importedCount
     };
 
     await this.db!.put('dailyAggregates', aggregate);
   }
 
+  /**
+   * Swaps every daily aggregate in the range for the given ones, in a single
+   * transaction so readers never see a half-rebuilt day.
+   */
+  async replaceAggregates(range: DateRange, aggregates: DailyAggregate[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    const tx = this.db!.transaction('dailyAggregates', 'readwrite');
+    let cursor = await tx.store.index('by-date').openCursor(IDBKeyRange.bound(range.start, range.end));
+    while (cursor) {
+      await cursor.delete();
+      cursor = await cursor.continue();
+    }
+
+    for (const aggregate of aggregates) {
+      await tx.store.put(aggregate);
+    }
+    await tx.done;
+  }
+
+  async updateHourlyAggregate(
+    date: string,
+    hour: number,
+    platform: Platform,
+    category: Category,
+    watchMsDelta: number
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    const key = `${date}::${hour}::${platform}::${category}`;
+    const existing = await this.db!.get('hourlyAggregates', key);
+
+    const aggregate: HourlyAggregate = {
+      key,
+      date,
+      hour,
+      platform,
+      category,
+      watchMs: (existing?.watchMs || 0) + watchMsDelta
+    };
+
+    await this.db!.put('hourlyAggregates', aggregate);
+  }
+
+  async getHourlyAggregates(range: DateRange): Promise<HourlyAggregate[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('hourlyAggregates', 'by-date', IDBKeyRange.bound(range.start, range.end));
+  }
+
+  /**
+   * Aggregates for a range, including the weeks older days were rolled up into.
+   * A rolled-up week can't be split back into days, so it's returned as one row
+   * dated by its Monday (see `days`) when that Monday is in the range.
+   */
   async getAggregates(range: DateRange): Promise<DailyAggregate[]> {
     if (!this.db) await this.init();
 
+    const [daily, weekly] = await Promise.all([
+      this.getDailyAggregates(range),
+      this.db!.getAllFromIndex('weeklyAggregates', 'by-period', IDBKeyRange.bound(range.start, range.end))
+    ]);
+
+    return [
+      ...daily,
+      ...weekly.map(rollup => ({
+        key: rollup.key,
+        date: rollup.period,
+        platform: rollup.platform,
+        category: rollup.category,
+        watchMs: rollup.watchMs,
+        attendedMs: rollup.attendedMs,
+        contentMs: rollup.contentMs,
+        count: rollup.count,
+        importedCount: rollup.importedCount,
+        days: rollup.days
+      }))
+    ];
+  }
+
+  // Only the days still kept one by one, for readers that need exact days
+  async getDailyAggregates(range: DateRange): Promise<DailyAggregate[]> {
+    if (!this.db) await this.init();
+
     const tx = this.db!.transaction('dailyAggregates', 'readonly');
     const store = tx.objectStore('dailyAggregates');
     const index = store.index('by-date');
@@ -104,38 +320,291 @@ class StorageManager {
     return results;
   }
 
+  async updateAdAggregate(
+    date: string,
+    platform: Platform,
+    adMsDelta: number,
+    adCountDelta: number = 0
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    const key = `${date}::${platform}`;
+    const existing = await this.db!.get('adAggregates', key);
+
+    const aggregate: AdAggregate = {
+      key,
+      date,
+      platform,
+      adMs: (existing?.adMs || 0) + adMsDelta,
+      adCount: (existing?.adCount || 0) + adCountDelta
+    };
+
+    await this.db!.put('adAggregates', aggregate);
+  }
+
+  async getAdAggregates(range: DateRange): Promise<AdAggregate[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('adAggregates', 'by-date', IDBKeyRange.bound(range.start, range.end));
+  }
+
+  async updateChannelAggregate(
+    date: string,
+    platform: Platform,
+    channelId: string,
+    channelName: string,
+    watchMsDelta: number,
+    countDelta: number = 0
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    const key = `${date}::${platform}::${channelId}`;
+    const existing = await this.db!.get('channelAggregates', key);
+
+    const aggregate: ChannelAggregate = {
+      key,
+      date,
+      platform,
+      channelId,
+      channelName: channelName || existing?.channelName || channelId,
+      watchMs: (existing?.watchMs || 0) + watchMsDelta,
+      count: (existing?.count || 0) + countDelta,
+      importedCount: existing?.importedCount
+    };
+
+    await this.db!.put('channelAggregates', aggregate);
+  }
+
+  async getChannelAggregates(range: DateRange): Promise<ChannelAggregate[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('channelAggregates', 'by-date', IDBKeyRange.bound(range.start, range.end));
+  }
+
+  async updateVideo(event: TrackerEvent, watchMsDelta: number): Promise<void> {
+    if (!this.db) await this.init();
+
+    const videoId = event.meta?.videoId;
+    if (!videoId) return;
+
+    const existing = await this.db!.get('videos', videoId);
+
+    const video: VideoRecord = {
+      videoId,
+      platform: event.platform,
+      category: event.category,
+      title: event.meta?.title || existing?.title || '',
+      url: event.meta?.url || existing?.url || '',
+      channelId: event.meta?.channelId || existing?.channelId,
+      channelName: event.meta?.channelName || existing?.channelName,
+      firstSeen: Math.min(existing?.firstSeen ?? event.timestamp, event.timestamp),
+      lastSeen: Math.max(existing?.lastSeen ?? event.timestamp, event.timestamp),
+      totalWatchedMs: (existing?.totalWatchedMs || 0) + watchMsDelta,
+      maxPositionMs: Math.max(existing?.maxPositionMs || 0, event.currentTime || 0),
+      durationMs: event.duration || existing?.durationMs
+    };
+
+    await this.db!.put('videos', video);
+  }
+
+  async queryVideos(query: VideoHistoryQuery): Promise<VideoHistoryPage> {
+    if (!this.db) await this.init();
+
+    const search = query.search?.trim().toLowerCase();
+    const matches: VideoRecord[] = [];
+
+    // Most recently watched first
+    let cursor = await this.db!.transaction('videos').store.index('by-last-seen').openCursor(null, 'prev');
+    while (cursor) {
+      const video = cursor.value;
+      if (
+        (!query.platform || video.platform === query.platform) &&
+        (!query.category || video.category === query.category) &&
+        (!search ||
+          video.title.toLowerCase().includes(search) ||
+          video.videoId.toLowerCase().includes(search) ||
+          (video.channelName || '').toLowerCase().includes(search))
+      ) {
+        matches.push(video);
+      }
+      cursor = await cursor.continue();
+    }
+
+    const start = query.page * query.pageSize;
+    return {
+      videos: matches.slice(start, start + query.pageSize),
+      total: matches.length
+    };
+  }
+
+  /**
+   * Adds watch time to the latest viewing session, or opens a new one when more
+   * than `gapMs` has passed since it last saw activity.
+   */
+  async updateViewingSession(
+    timestamp: number,
+    watchMsDelta: number,
+    videoId: string,
+    category: Category,
+    gapMs: number
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    // Read and write in one transaction so concurrent updates can't both extend
+    // the same stale copy of the latest session
+    const tx = this.db!.transaction('viewingSessions', 'readwrite');
+    const cursor = await tx.store.index('by-start').openCursor(null, 'prev');
+    const latest = cursor?.value;
+    const activityStart = timestamp - watchMsDelta;
+
+    if (latest && activityStart - latest.end <= gapMs) {
+      latest.end = Math.max(latest.end, timestamp);
+      latest.totalMs += watchMsDelta;
+      if (!latest.videoIds.includes(videoId)) latest.videoIds.push(videoId);
+      latest.categoryMs[category] = (latest.categoryMs[category] || 0) + watchMsDelta;
+      await tx.store.put(latest);
+    } else {
+      await tx.store.put({
+        id: generateEventId(),
+        start: activityStart,
+        end: timestamp,
+        totalMs: watchMsDelta,
+        videoIds: [videoId],
+        categoryMs: { [category]: watchMsDelta }
+      });
+    }
+
+    await tx.done;
+  }
+
+  async getViewingSessions(startTime: number, endTime: number): Promise<ViewingSession[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('viewingSessions', 'by-start', IDBKeyRange.bound(startTime, endTime, false, true));
+  }
+
+  async addBudgetOverride(event: BudgetOverrideEvent): Promise<void> {
+    if (!this.db) await this.init();
+
+    await this.db!.put('budgetOverrides', event);
+  }
+
+  async getBudgetOverrides(startTime: number, endTime: number): Promise<BudgetOverrideEvent[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('budgetOverrides', 'by-timestamp', IDBKeyRange.bound(startTime, endTime, false, true));
+  }
+
+  async updateScheduleCompliance(
+    date: string,
+    scheduleId: string,
+    watchMsDelta: number,
+    overridesDelta: number = 0
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    const key = `${date}::${scheduleId}`;
+    const existing = await this.db!.get('scheduleCompliance', key);
+
+    const record: ScheduleComplianceRecord = {
+      key,
+      date,
+      scheduleId,
+      watchMs: (existing?.watchMs || 0) + watchMsDelta,
+      overrides: (existing?.overrides || 0) + overridesDelta
+    };
+
+    await this.db!.put('scheduleCompliance', record);
+  }
+
+  async getScheduleCompliance(range: DateRange): Promise<ScheduleComplianceRecord[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('scheduleCompliance', 'by-date', IDBKeyRange.bound(range.start, range.end));
+  }
+
+  // Results are written once per goal and day; later edits to the goal leave them alone
+  async addGoalResult(result: GoalResult): Promise<void> {
+    if (!this.db) await this.init();
+
+    const existing = await this.db!.get('goalResults', result.key);
+    if (existing) return;
+
+    await this.db!.put('goalResults', result);
+  }
+
+  async getGoalResults(goalId: string): Promise<GoalResult[]> {
+    if (!this.db) await this.init();
+
+    const results = await this.db!.getAllFromIndex('goalResults', 'by-goal', goalId);
+    return results.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async putBreakReminder(record: BreakReminderRecord): Promise<void> {
+    if (!this.db) await this.init();
+
+    await this.db!.put('breakReminders', record);
+  }
+
+  async getBreakReminder(id: string): Promise<BreakReminderRecord | undefined> {
+    if (!this.db) await this.init();
+
+    return this.db!.get('breakReminders', id);
+  }
+
+  async getBreakReminders(startTime: number, endTime: number): Promise<BreakReminderRecord[]> {
+    if (!this.db) await this.init();
+
+    return this.db!.getAllFromIndex('breakReminders', 'by-timestamp', IDBKeyRange.bound(startTime, endTime, false, true));
+  }
+
+  // Recent windows are always newer than the rollup cutoff
   async getTodayAggregates(): Promise<DailyAggregate[]> {
     const today = getDateString();
-    return this.getAggregates({ start: today, end: today });
+    return this.getDailyAggregates({ start: today, end: today });
   }
 
   async getYesterdayAggregates(): Promise<DailyAggregate[]> {
-    const yesterday = getDateString(new Date(Date.now() - 24 * 60 * 60 * 1000));
-    return this.getAggregates({ start: yesterday, end: yesterday });
+    const yesterday = getYesterday();
+    return this.getDailyAggregates({ start: yesterday, end: yesterday });
   }
 
   async getLast7DaysAggregates(): Promise<DailyAggregate[]> {
     const end = getDateString();
-    const start = getDateString(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
-    return this.getAggregates({ start, end });
+    const start = getDaysAgo(7);
+    return this.getDailyAggregates({ start, end });
   }
 
   async getLast30DaysAggregates(): Promise<DailyAggregate[]> {
     const end = getDateString();
-    const start = getDateString(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
-    return this.getAggregates({ start, end });
+    const start = getDaysAgo(30);
+    return this.getDailyAggregates({ start, end });
   }
 
   async exportCSV(range: DateRange): Promise<string> {
     const aggregates = await this.getAggregates(range);
     
-    const headers = ['Date', 'Platform', 'Category', 'Watch Time (minutes)', 'Count'];
+    const toMinutes = (ms: number) => Math.round(ms / 60000 * 100) / 100; // 2 decimal places
+    const headers = [
+      'Date',
+      'Platform',
+      'Category',
+      'Watch Time (minutes)',
+      'Attended Time (minutes)',
+      'Content Time (minutes)',
+      'Count',
+      // More than 1 on a rolled-up week, dated by its Monday
+      'Days'
+    ];
     const rows = aggregates.map(agg => [
       agg.date,
       agg.platform,
       agg.category,
-      Math.round(agg.watchMs / 60000 * 100) / 100, // Convert to minutes with 2 decimal places
-      agg.count
+      toMinutes(agg.watchMs),
+      toMinutes(agg.attendedMs || 0),
+      toMinutes(agg.contentMs || 0),
+      agg.count,
+      agg.days ?? 1
     ]);
 
     return [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -159,21 +628,414 @@ class StorageManager {
     await this.db!.put('settings', { key, value });
   }
 
-  private async cleanupOldEvents(): Promise<void> {
-    if (!this.db) return;
+  /**
+   * Applies the retention policy: deletes raw events past their retention and
+   * folds old daily aggregates into the weekly and monthly stores.
+   */
+  async applyRetention(): Promise<RetentionRun> {
+    if (!this.db) await this.init();
+
+    const run: RetentionRun = {
+      timestamp: Date.now(),
+      eventsDeleted: this.retention.rawEvents === 'forever' ? 0 : await this.deleteEventsBefore(this.getEventRetentionStart()),
+      aggregatesRolledUp: 0
+    };
+
+    const rollupCutoff = this.getRollupCutoff();
+    if (rollupCutoff) {
+      run.aggregatesRolledUp = await this.rollupAggregates(rollupCutoff);
+    }
+
+    await this.setSetting('lastCleanup', run);
+    return run;
+  }
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    if (!this.db) await this.init();
+
+    const usage: StorageUsage = { stores: [], lastCleanup: await this.getSetting('lastCleanup', null) };
+    for (const name of Array.from(this.db!.objectStoreNames)) {
+      let records = 0;
+      let approxBytes = 0;
+      let cursor = await this.db!.transaction(name, 'readonly').store.openCursor();
+      while (cursor) {
+        records++;
+        approxBytes += JSON.stringify(cursor.value).length;
+        cursor = await cursor.continue();
+      }
+      usage.stores.push({ name, records, approxBytes });
+    }
+
+    if (navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      usage.usageBytes = estimate.usage;
+      usage.quotaBytes = estimate.quota;
+    }
+
+    return usage;
+  }
+
+  /**
+   * Backfills a Google Takeout watch history. Every entry counts as a view of
+   * a regular video (Takeout doesn't mark Shorts) with no watch time, and is
+   * flagged as imported on the video, channel and daily aggregates. Days since
+   * the extension started tracking YouTube are skipped, as are entries already
+   * imported, so running it twice is harmless, and so is resuming after a
+   * chunk failed part way through.
+   */
+  async importWatchHistory(entries: TakeoutEntry[]): Promise<TakeoutImportResult> {
+    if (!this.db) await this.init();
+
+    const trackedSince = await this.getYouTubeTrackedSince();
+    const result: TakeoutImportResult = { imported: 0, duplicates: 0, skippedTracked: 0, trackedSince };
+    const pending = [...entries].sort((a, b) => a.timestamp - b.timestamp).filter(entry => {
+      if (trackedSince && getDateString(new Date(entry.timestamp)) >= trackedSince) {
+        result.skippedTracked++;
+        return false;
+      }
+      return true;
+    });
+
+    for (let i = 0; i < pending.length; i += IMPORT_CHUNK_SIZE) {
+      await this.importWatchChunk(pending.slice(i, i + IMPORT_CHUNK_SIZE), result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Dumps every store, so stores added later are backed up without changes here.
+   */
+  async createBackup(): Promise<BackupFile> {
+    if (!this.db) await this.init();
+
+    const storeNames = Array.from(this.db!.objectStoreNames);
+    const tx = this.db!.transaction(storeNames, 'readonly');
+    const stores: BackupFile['stores'] = {};
+    for (const name of storeNames) {
+      stores[name] = await tx.objectStore(name).getAll();
+    }
+    await tx.done;
+
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: this.DB_VERSION,
+      createdAt: Date.now(),
+      stores
+    };
+  }
+
+  async previewRestore(data: unknown, mode: RestoreMode): Promise<RestorePreview> {
+    return this.restore(data, mode, true);
+  }
+
+  async restoreBackup(data: unknown, mode: RestoreMode): Promise<RestorePreview> {
+    return this.restore(data, mode, false);
+  }
+
+  /**
+   * Validates a backup and works out, per store, how many of its records are
+   * new. A backup from an older schema has its records run through the newer
+   * migrations first. Unless it's a dry run, the records are then written in one
+   * transaction: merging adds only records whose key (`eventId`, aggregate
+   * `key`, ...) isn't present, replacing empties the backed-up stores first. This
+   * database's migration log is never overwritten.
+   */
+  private async restore(data: unknown, mode: RestoreMode, dryRun: boolean): Promise<RestorePreview> {
+    if (!this.db) await this.init();
+
+    const backup = validateBackup(data, this.DB_VERSION, Array.from(this.db!.objectStoreNames));
+    const preview: RestorePreview = {
+      mode,
+      schemaVersion: backup.schemaVersion,
+      createdAt: backup.createdAt,
+      stores: [],
+      warnings: []
+    };
+
+    let backupStores = backup.stores;
+    if (backup.schemaVersion < this.DB_VERSION) {
+      backupStores = await migrateRecords(backup.schemaVersion, backup.stores);
+      preview.warnings.push(`Backup is from schema v${backup.schemaVersion}; its records are upgraded to v${this.DB_VERSION} first`);
+    }
+
+    const storeNames = Object.keys(backupStores) as BackupStoreName[];
+    if (storeNames.length === 0) return preview;
+
+    const planStore = (name: BackupStoreName, keyPath: string, storeKeys: IDBValidKey[]) => {
+      // Dedupe within the backup too; the last copy of a key wins
+      const records = new Map<string, unknown>();
+      let missingKeys = 0;
+      for (const record of backupStores[name] || []) {
+        const key = getRecordKey(record, keyPath);
+        if (key === undefined) {
+          missingKeys++;
+        } else if (!(name === 'settings' && key === MIGRATIONS_SETTING_KEY)) {
+          records.set(key, record);
+        }
+      }
+      if (missingKeys > 0) {
+        preview.warnings.push(`${missingKeys} records in ${name} have no ${keyPath} and are skipped`);
+      }
+
+      const existingKeys = new Set(storeKeys);
+      const newKeys = Array.from(records.keys()).filter(key => !existingKeys.has(key));
+      preview.stores.push({
+        name,
+        backupRecords: records.size,
+        newRecords: newKeys.length,
+        existingRecords: existingKeys.size
+      });
+
+      return { records, newKeys };
+    };
+
+    if (dryRun) {
+      const tx = this.db!.transaction(storeNames, 'readonly');
+      for (const name of storeNames) {
+        const store = tx.objectStore(name);
+        planStore(name, store.keyPath as string, await store.getAllKeys());
+      }
+      await tx.done;
+      return preview;
+    }
+
+    // Read and write in the same transaction so the preview matches what gets written
+    const tx = this.db!.transaction(storeNames, 'readwrite');
+    for (const name of storeNames) {
+      const store = tx.objectStore(name);
+      const { records, newKeys } = planStore(name, store.keyPath as string, await store.getAllKeys());
+
+      if (mode === 'replace') {
+        const migrationLog = name === 'settings' ? await tx.objectStore('settings').get(MIGRATIONS_SETTING_KEY) : undefined;
+        await store.clear();
+        if (migrationLog) await store.put(migrationLog);
+        for (const record of records.values()) {
+          await store.put(record);
+        }
+      } else {
+        for (const key of newKeys) {
+          await store.put(records.get(key));
+        }
+      }
+    }
+    await tx.done;
+
+    this.retention = { ...DEFAULT_RETENTION, ...(await this.getSetting('retention', {})) };
+
+    return preview;
+  }
+
+  /**
+   * First day with tracked YouTube watch time. Days already rolled up count
+   * too, a rolled-up week from its Monday; the monthly rollups hold the same
+   * days as the weekly ones, and every day still kept one by one is newer.
+   */
+  private async getYouTubeTrackedSince(): Promise<string | null> {
+    let weekCursor = await this.db!.transaction('weeklyAggregates', 'readonly').store.index('by-period').openCursor();
+    while (weekCursor) {
+      if (weekCursor.value.platform === 'youtube' && weekCursor.value.watchMs > 0) return weekCursor.value.period;
+      weekCursor = await weekCursor.continue();
+    }
+
+    let dayCursor = await this.db!.transaction('dailyAggregates', 'readonly').store.index('by-date').openCursor();
+    while (dayCursor) {
+      if (dayCursor.value.platform === 'youtube' && dayCursor.value.watchMs > 0) return dayCursor.value.date;
+      dayCursor = await dayCursor.continue();
+    }
+
+    return null;
+  }
+
+  /**
+   * Imports one chunk in a single transaction. Every record the chunk touches
+   * is requested up front, the entries are applied in memory and only the
+   * changed records are written back, instead of a read and a write per entry.
+   */
+  private async importWatchChunk(entries: TakeoutEntry[], result: TakeoutImportResult): Promise<void> {
+    const tx = this.db!.transaction(['importedWatches', 'videos', 'channelAggregates', 'dailyAggregates'], 'readwrite');
+    const getMany = async <T>(keys: string[], get: (key: string) => Promise<T | undefined>) => {
+      const found = new Map<string, T>();
+      await Promise.all(Array.from(new Set(keys)).map(async key => {
+        const value = await get(key);
+        if (value !== undefined) found.set(key, value);
+      }));
+      return found;
+    };
+
+    const watches = entries.map(entry => ({
+      entry,
+      key: `${entry.timestamp}::${entry.videoId}`,
+      date: getDateString(new Date(entry.timestamp))
+    }));
+    const channelKey = (date: string, channelId: string) => `${date}::youtube::${channelId}`;
+    const [importedKeys, videos, channelAggregates] = await Promise.all([
+      getMany(watches.map(watch => watch.key), key => tx.objectStore('importedWatches').getKey(key)),
+      getMany(entries.map(entry => entry.videoId), key => tx.objectStore('videos').get(key)),
+      getMany(
+        watches.filter(watch => watch.entry.channelId).map(watch => channelKey(watch.date, watch.entry.channelId!)),
+        key => tx.objectStore('channelAggregates').get(key)
+      )
+    ]);
+
+    // The same entry twice in one file is a duplicate too
+    const fresh = watches.filter(watch => {
+      if (importedKeys.has(watch.key)) {
+        result.duplicates++;
+        return false;
+      }
+      importedKeys.set(watch.key, watch.key);
+      return true;
+    });
+
+    // The daily aggregate follows the category of the video as already stored
+    const aggregateKey = (date: string, videoId: string) => `${date}::youtube::${videos.get(videoId)?.category || 'regular'}`;
+    const dailyAggregates = await getMany(
+      fresh.map(watch => aggregateKey(watch.date, watch.entry.videoId)),
+      key => tx.objectStore('dailyAggregates').get(key)
+    );
+
+    const changedVideos = new Map<string, VideoRecord>();
+    const changedAggregates = new Map<string, DailyAggregate>();
+    const changedChannels = new Map<string, ChannelAggregate>();
+    for (const { entry, date } of fresh) {
+      const existingVideo = changedVideos.get(entry.videoId) || videos.get(entry.videoId);
+      const category = existingVideo?.category || 'regular';
+      changedVideos.set(entry.videoId, {
+        videoId: entry.videoId,
+        platform: 'youtube',
+        category,
+        title: existingVideo?.title || entry.title,
+        url: existingVideo?.url || entry.url,
+        channelId: existingVideo?.channelId || entry.channelId,
+        channelName: existingVideo?.channelName || entry.channelName,
+        firstSeen: Math.min(existingVideo?.firstSeen ?? entry.timestamp, entry.timestamp),
+        lastSeen: Math.max(existingVideo?.lastSeen ?? entry.timestamp, entry.timestamp),
+        totalWatchedMs: existingVideo?.totalWatchedMs || 0,
+        maxPositionMs: existingVideo?.maxPositionMs || 0,
+        durationMs: existingVideo?.durationMs,
+        imported: existingVideo ? existingVideo.imported : true
+      });
+
+      const dailyKey = aggregateKey(date, entry.videoId);
+      const aggregate = changedAggregates.get(dailyKey) || dailyAggregates.get(dailyKey);
+      changedAggregates.set(dailyKey, {
+        key: dailyKey,
+        date,
+        platform: 'youtube',
+        category,
+        watchMs: aggregate?.watchMs || 0,
+        attendedMs: aggregate?.attendedMs || 0,
+        contentMs: aggregate?.contentMs || 0,
+        count: (aggregate?.count || 0) + 1,
+        importedCount: (aggregate?.importedCount || 0) + 1
+      });
+
+      if (entry.channelId) {
+        const channelAggregateKey = channelKey(date, entry.channelId);
+        const channelAggregate = changedChannels.get(channelAggregateKey) || channelAggregates.get(channelAggregateKey);
+        changedChannels.set(channelAggregateKey, {
+          key: channelAggregateKey,
+          date,
+          platform: 'youtube',
+          channelId: entry.channelId,
+          channelName: entry.channelName || channelAggregate?.channelName || entry.channelId,
+          watchMs: channelAggregate?.watchMs || 0,
+          count: (channelAggregate?.count || 0) + 1,
+          importedCount: (channelAggregate?.importedCount || 0) + 1
+        });
+      }
+
+      result.imported++;
+    }
+
+    await Promise.all([
+      ...fresh.map(({ entry, key, date }) =>
+        tx.objectStore('importedWatches').put({ key, date, videoId: entry.videoId, timestamp: entry.timestamp })
+      ),
+      ...Array.from(changedVideos.values()).map(video => tx.objectStore('videos').put(video)),
+      ...Array.from(changedAggregates.values()).map(aggregate => tx.objectStore('dailyAggregates').put(aggregate)),
+      ...Array.from(changedChannels.values()).map(aggregate => tx.objectStore('channelAggregates').put(aggregate)),
+      tx.done
+    ]);
+  }
+
+  private async deleteEventsBefore(cutoffTime: number): Promise<number> {
+    if (!this.db) return 0;
 
-    const cutoffDate = Date.now() - (30 * 24 * 60 * 60 * 1000); // 30 days ago
     const tx = this.db.transaction('events', 'readwrite');
-    const store = tx.objectStore('events');
-    const index = store.index('by-date');
+    let deleted = 0;
+    let cursor = await tx.store.index('by-date').openCursor(IDBKeyRange.upperBound(cutoffTime, true));
+    while (cursor) {
+      await cursor.delete();
+      deleted++;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
 
-    let cursor = await index.openCursor();
+    return deleted;
+  }
+
+  /**
+   * Adds every daily aggregate before `beforeDate` to its week and month and
+   * deletes it, all in one transaction so no day is counted twice or lost.
+   */
+  private async rollupAggregates(beforeDate: string): Promise<number> {
+    if (!this.db) return 0;
+
+    const tx = this.db.transaction(['dailyAggregates', 'weeklyAggregates', 'monthlyAggregates'], 'readwrite');
+    const weekly = new Map<string, RollupAggregate>();
+    const monthly = new Map<string, RollupAggregate>();
+
+    const addTo = async (
+      rollups: Map<string, RollupAggregate>,
+      storeName: 'weeklyAggregates' | 'monthlyAggregates',
+      period: string,
+      aggregate: DailyAggregate
+    ) => {
+      const key = `${period}::${aggregate.platform}::${aggregate.category}`;
+      const rollup = rollups.get(key) || (await tx.objectStore(storeName).get(key)) || {
+        key,
+        period,
+        platform: aggregate.platform,
+        category: aggregate.category,
+        watchMs: 0,
+        attendedMs: 0,
+        contentMs: 0,
+        count: 0,
+        days: 0
+      };
+
+      rollup.watchMs += aggregate.watchMs;
+      rollup.attendedMs += aggregate.attendedMs || 0;
+      rollup.contentMs += aggregate.contentMs || 0;
+      rollup.count += aggregate.count;
+      if (aggregate.importedCount) rollup.importedCount = (rollup.importedCount || 0) + aggregate.importedCount;
+      rollup.days += 1;
+      rollups.set(key, rollup);
+    };
+
+    let rolledUp = 0;
+    let cursor = await tx.objectStore('dailyAggregates').index('by-date').openCursor(IDBKeyRange.upperBound(beforeDate, true));
     while (cursor) {
-      if (cursor.value.timestamp < cutoffDate) {
-        await cursor.delete();
-      }
+      const aggregate = cursor.value;
+      await addTo(weekly, 'weeklyAggregates', getWeekStart(aggregate.date), aggregate);
+      await addTo(monthly, 'monthlyAggregates', aggregate.date.slice(0, 7), aggregate);
+      await cursor.delete();
+      rolledUp++;
       cursor = await cursor.continue();
     }
+
+    for (const rollup of weekly.values()) {
+      await tx.objectStore('weeklyAggregates').put(rollup);
+    }
+    for (const rollup of monthly.values()) {
+      await tx.objectStore('monthlyAggregates').put(rollup);
+    }
+    await tx.done;
+
+    return rolledUp;
   }
 }
 
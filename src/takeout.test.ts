@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseTakeoutHtml, parseTakeoutJson } from './takeout';
+
+function createItem(title: string, index: number, overrides: Record<string, unknown> = {}) {
+  return {
+    header: 'YouTube',
+    title,
+    titleUrl: `https://www.youtube.com/watch?v=video${index}`,
+    subtitles: [{ name: 'Some Channel', url: 'https://www.youtube.com/channel/UC123' }],
+    time: new Date(Date.UTC(2023, 0, 1 + index)).toISOString(),
+    ...overrides
+  };
+}
+
+const videoTitles = [
+  'How bridges stay up',
+  'Lo-fi beats to study to',
+  'Cooking pasta the Italian way',
+  'Top 10 goals of 2022',
+  'Why cats knock things over',
+  'A day in Tokyo',
+  'Learn TypeScript in 20 minutes',
+  'Guitar lesson #3',
+  'The history of chess',
+  'Unboxing a 1990s computer'
+];
+
+describe('parseTakeoutJson', () => {
+  it('reads the video, channel and time and skips ads', () => {
+    const items = [
+      createItem('Watched First video', 0),
+      createItem('Watched Sponsored', 1, { details: [{ name: 'From Google Ads' }] })
+    ];
+
+    expect(parseTakeoutJson(JSON.stringify(items))).toEqual({
+      entries: [{
+        videoId: 'video0',
+        title: 'First video',
+        url: 'https://www.youtube.com/watch?v=video0',
+        channelId: 'UC123',
+        channelName: 'Some Channel',
+        timestamp: Date.UTC(2023, 0, 1)
+      }],
+      skipped: 1
+    });
+  });
+
+  it('takes the wording every title shares off, in any language', () => {
+    const german = parseTakeoutJson(JSON.stringify(videoTitles.map((title, index) => createItem(`${title} angesehen`, index))));
+    expect(german.entries.map(entry => entry.title)).toEqual(videoTitles);
+
+    const french = parseTakeoutJson(JSON.stringify(videoTitles.map((title, index) => createItem(`Vous avez regardé ${title}`, index))));
+    expect(french.entries.map(entry => entry.title)).toEqual(videoTitles);
+  });
+
+  it('keeps wording the titles happen to share', () => {
+    const series = videoTitles.map(title => `Minecraft ${title} (Part 1)`);
+    const english = parseTakeoutJson(JSON.stringify(series.map((title, index) => createItem(`Watched ${title}`, index))));
+    expect(english.entries.map(entry => entry.title)).toEqual(series);
+
+    const unknownLanguage = parseTakeoutJson(JSON.stringify(series.map((title, index) => createItem(title, index))));
+    expect(unknownLanguage.entries.map(entry => entry.title)).toEqual(series);
+  });
+
+  it('rejects anything but a list', () => {
+    expect(() => parseTakeoutJson('{}')).toThrow('Not a Takeout watch history');
+  });
+});
+
+describe('parseTakeoutHtml', () => {
+  function createHtml(watched: (title: string) => string, dates: string[]) {
+    const cells = dates.map((date, index) => `
+      <div class="outer-cell"><div class="mdl-grid">
+        <div class="header-cell"><p>YouTube</p></div>
+        <div class="content-cell">${watched(`<a href="https://www.youtube.com/watch?v=video${index}">Video ${index}</a>`)}<br>
+          <a href="https://www.youtube.com/channel/UC123">Some Channel</a><br>${date}<br></div>
+        <div class="content-cell"></div>
+      </div></div>`);
+    return `<html><body><div class="mdl-grid">${cells.join('')}</div></body></html>`;
+  }
+
+  it('reads the video, channel and local time from an English export', () => {
+    const html = createHtml(link => `Watched ${link}`, ['Jan 15, 2024, 2:30:00\u202fPM CET']);
+
+    expect(parseTakeoutHtml(html)).toEqual({
+      entries: [{
+        videoId: 'video0',
+        title: 'Video 0',
+        url: 'https://www.youtube.com/watch?v=video0',
+        channelId: 'UC123',
+        channelName: 'Some Channel',
+        timestamp: new Date(2024, 0, 15, 14, 30).getTime()
+      }],
+      skipped: 0
+    });
+  });
+
+  it('points to the JSON export instead of misreading dates in other languages', () => {
+    const html = createHtml(link => `${link} angesehen`, ['01.02.2024, 14:30:00 MEZ', '15. März 2024, 09:00:00 MEZ']);
+
+    expect(() => parseTakeoutHtml(html)).toThrow('Export the history as JSON');
+  });
+});
\ No newline at end of file
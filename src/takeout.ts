@@ -0,0 +1,152 @@
+import { TakeoutEntry, TakeoutParseResult } from './types';
+import { extractVideoId } from './utils';
+
+// Entries Takeout lists for ads served, rather than videos watched
+const ADS_MARKER = 'From Google Ads';
+
+// How Takeout words a watched video's title in each account language; the group is the video title
+const TITLE_TEMPLATES: RegExp[] = [
+  /^Watched\s+(.+)$/s, // English
+  /^(.+?)\s+angesehen$/s, // German
+  /^Vous avez regardé\s+(.+)$/s, // French
+  /^Has visto\s+(.+)$/s, // Spanish
+  /^Hai guardato\s+(.+)$/s, // Italian
+  /^Assistiu a\s+(.+)$/s // Portuguese
+];
+
+function parseChannelUrl(url: string | undefined): string | undefined {
+  const match = url?.match(/youtube\.com\/(?:channel\/([^/?#]+)|(@[^/?#]+))/);
+  return match ? match[1] || match[2] : undefined;
+}
+
+function toEntry(
+  videoUrl: string | undefined,
+  title: string,
+  timestamp: number,
+  channelUrl?: string,
+  channelName?: string
+): TakeoutEntry | null {
+  const videoId = videoUrl ? extractVideoId(videoUrl) : null;
+  if (!videoUrl || !videoId || !Number.isFinite(timestamp)) return null;
+
+  return {
+    videoId,
+    title: title.trim(),
+    url: videoUrl,
+    channelId: parseChannelUrl(channelUrl),
+    channelName: channelName?.trim() || undefined,
+    timestamp
+  };
+}
+
+/**
+ * The JSON titles are sentences in the account's language ("Watched ...",
+ * "... angesehen"). The template most titles follow is taken to be the
+ * account's and is taken off them; titles that don't follow it, and every
+ * title in a language not listed, are kept whole.
+ */
+function getTitleStripper(titles: string[]): (title: string) => string {
+  let template: RegExp | null = null;
+  let mostMatches = 0;
+  for (const candidate of TITLE_TEMPLATES) {
+    const matches = titles.filter(title => candidate.test(title)).length;
+    if (matches > mostMatches) {
+      template = candidate;
+      mostMatches = matches;
+    }
+  }
+
+  const accountTemplate = template;
+  return title => (accountTemplate && title.match(accountTemplate)?.[1]) || title;
+}
+
+/**
+ * Reads `watch-history.json`: an array of activity items with `titleUrl`,
+ * `title` ("Watched ..."), `subtitles` (the channel) and an ISO `time`.
+ */
+export function parseTakeoutJson(text: string): TakeoutParseResult {
+  const items = JSON.parse(text);
+  if (!Array.isArray(items)) {
+    throw new Error('Not a Takeout watch history: expected a list of entries');
+  }
+
+  const isAd = (item: { details?: unknown } | null) =>
+    Array.isArray(item?.details) && item.details.some((detail: unknown) => (detail as { name?: unknown } | null)?.name === ADS_MARKER);
+  const stripTitle = getTitleStripper(items.filter(item => !isAd(item) && item?.title).map(item => String(item.title)));
+
+  const result: TakeoutParseResult = { entries: [], skipped: 0 };
+  for (const item of items) {
+    const channel = Array.isArray(item?.subtitles) ? item.subtitles[0] : undefined;
+    const entry = isAd(item)
+      ? null
+      : toEntry(item?.titleUrl, stripTitle(String(item?.title || '')), Date.parse(item?.time), channel?.url, channel?.name);
+
+    if (entry) {
+      result.entries.push(entry);
+    } else {
+      result.skipped++;
+    }
+  }
+
+  return result;
+}
+
+// Month names as an English export writes them; other languages' dates would be misread or not read at all
+const ENGLISH_MONTH = /\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\b/;
+
+// "Jan 1, 2024, 12:00:00 PM CET": the zone abbreviation isn't parseable, so the time is read as local
+function parseTakeoutDate(text: string): number {
+  const normalized = text.replace(/[\u202f\u00a0]/g, ' ').trim().replace(/\s+(?!AM$|PM$)[A-Z]{2,5}$/, '');
+  return ENGLISH_MONTH.test(normalized) ? Date.parse(normalized) : NaN;
+}
+
+/**
+ * Reads `watch-history.html`, where each entry is an `.outer-cell` whose body
+ * cell holds the video link, the channel link and the date as the last line.
+ * The dates are written in the account's language and only English ones are
+ * read; a file with none readable is rejected with a pointer to the JSON
+ * export. Needs DOMParser, so it runs on the dashboard rather than in the worker.
+ */
+export function parseTakeoutHtml(text: string): TakeoutParseResult {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  const cells = Array.from(doc.querySelectorAll('.outer-cell'));
+  if (cells.length === 0) {
+    throw new Error('Not a Takeout watch history: no entries found');
+  }
+
+  const result: TakeoutParseResult = { entries: [], skipped: 0 };
+  let unreadableDates = 0;
+  for (const cell of cells) {
+    const body = Array.from(cell.querySelectorAll('.content-cell')).find(content => content.querySelector('a'));
+    const links = body ? Array.from(body.querySelectorAll('a')) : [];
+    const lines = body
+      ? Array.from(body.childNodes).filter(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim())
+      : [];
+    const timestamp = parseTakeoutDate(lines[lines.length - 1]?.textContent || '');
+    const isVideo = !cell.textContent?.includes(ADS_MARKER) && links.length > 0;
+    if (isVideo && Number.isNaN(timestamp)) unreadableDates++;
+
+    const entry = isVideo
+      ? toEntry(links[0].href, links[0].textContent || '', timestamp, links[1]?.href, links[1]?.textContent || undefined)
+      : null;
+
+    if (entry) {
+      result.entries.push(entry);
+    } else {
+      result.skipped++;
+    }
+  }
+
+  if (result.entries.length === 0 && unreadableDates > 0) {
+    throw new Error(
+      "Dates in watch-history.html can only be read from English exports. Export the history as JSON in Google Takeout and import watch-history.json instead"
+    );
+  }
+
+  return result;
+}
+
+export function parseTakeoutFile(fileName: string, text: string): TakeoutParseResult {
+  const isHtml = /\.html?$/i.test(fileName) || text.trimStart().startsWith('<');
+  return isHtml ? parseTakeoutHtml(text) : parseTakeoutJson(text);
+}
\ No newline at end of file
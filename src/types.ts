@@ -1,4 +1,7 @@
-export type Platform = 'youtube' | 'tiktok' | 'instagram';
+import type { StoreNames } from 'idb';
+import type { TrackerDB } from './storage';
+
+export type Platform = 'youtube' | 'tiktok' | 'instagram' | 'generic';
 export type Category = 'shorts' | 'regular' | 'reel' | 'tiktok';
 
 export interface TrackerEvent {
@@ -6,10 +9,28 @@ export interface TrackerEvent {
   timestamp: number;
   platform: Platform;
   category: Category;
-  type: 'start' | 'pause' | 'time_update' | 'end' | 'navigation';
+  // 'end' is the media element finishing; 'close' is the module tearing down mid-video
+  type: 'start' | 'pause' | 'time_update' | 'end' | 'close' | 'navigation';
   currentTime?: number;
   duration?: number;
-  meta?: { videoId?: string; title?: string; url?: string };
+  meta?: {
+    videoId?: string;
+    title?: string;
+    url?: string;
+    // Channel `@handle`, or the `UC...` ID for channels without one
+    channelId?: string;
+    channelName?: string;
+  };
+  // Set while the platform is playing an ad instead of the video in meta
+  isAd?: boolean;
+  // Attention signals: muted comes from the platform module, page state from the content script
+  muted?: boolean;
+  playbackRate?: number;
+  pageVisible?: boolean;
+  pageFocused?: boolean;
+  // Added by the background when the raw event is stored, so it can be replayed
+  tabId?: number;
+  userIdle?: boolean;
 }
 
 export interface SessionState {
@@ -20,6 +41,171 @@ export interface SessionState {
   lastUpdateTime: number;
   totalWatchMs: number;
   counted: boolean;
+  inAd?: boolean;
+  channelId?: string;
+  channelName?: string;
+  lastPositionMs?: number;
+  durationMs?: number;
+  looped?: boolean;
+  seekCount?: number;
+  totalContentMs?: number;
+}
+
+export interface CountingRules {
+  // A view counts once either threshold is reached; 0 disables that threshold
+  minWatchSeconds: number;
+  minWatchPercent: number;
+  // Count a video the first time it loops back to the start (Shorts never fire 'ended')
+  countOnLoop: boolean;
+}
+
+// What happens once a budget is used up; 'redirect' sends YouTube Shorts to the regular player
+export type BudgetEnforcement = 'warn' | 'pause' | 'block' | 'redirect';
+
+export interface Budget {
+  id: string;
+  // 'all' makes the budget span every platform or category
+  platform: Platform | 'all';
+  category: Category | 'all';
+  dailyLimitMinutes: number;
+  enabled: boolean;
+  // Missing means 'warn', as budgets had before enforcement existed
+  enforcement?: BudgetEnforcement;
+}
+
+export interface BudgetStatus {
+  budgetId: string;
+  platform: Platform | 'all';
+  category: Category | 'all';
+  limitMs: number;
+  usedMs: number;
+  remainingMs: number;
+  // Past the warning threshold but not yet over
+  warning: boolean;
+  exceeded: boolean;
+  enforcement: BudgetEnforcement;
+  // Enforcement is lifted until this time after a snooze or override
+  overriddenUntil?: number;
+  // Set when the restriction comes from an active focus schedule rather than a daily budget
+  scheduleName?: string;
+}
+
+export interface Goal {
+  id: string;
+  // 'maxMinutes': watch time under `threshold` minutes a day;
+  // 'maxShare': the category's share of the platform's watch time under `threshold` percent
+  metric: 'maxMinutes' | 'maxShare';
+  platform: Platform | 'all';
+  category: Category | 'all';
+  threshold: number;
+  enabled: boolean;
+  createdAt: number;
+}
+
+/**
+ * A finished day's outcome for one goal. The goal is copied in so editing it
+ * later doesn't change results already recorded.
+ */
+export interface GoalResult {
+  key: string;
+  date: string;
+  goalId: string;
+  goal: Pick<Goal, 'metric' | 'platform' | 'category' | 'threshold'>;
+  // Minutes or percent, matching the goal's metric
+  value: number;
+  met: boolean;
+}
+
+export interface GoalStreak {
+  goalId: string;
+  currentStreak: number;
+  bestStreak: number;
+  // Whether today, still in progress, is on track
+  metToday: boolean;
+  todayValue: number;
+}
+
+export interface BreakReminderSettings {
+  enabled: boolean;
+  // Continuous watching after which the reminder appears
+  thresholdMinutes: number;
+  // Length of the suggested break; a pause at least this long also resets the clock
+  breakMinutes: number;
+  pauseVideo: boolean;
+}
+
+export interface BreakReminderRecord {
+  id: string;
+  timestamp: number;
+  watchedMs: number;
+  // 'accepted' when the break is taken, 'ignored' when dismissed or left unanswered until the countdown runs out
+  outcome: 'pending' | 'accepted' | 'ignored';
+}
+
+// The current unbroken stretch of watching, across videos and tabs
+export interface ContinuousWatch {
+  startTime: number;
+  lastTime: number;
+  // How far into the stretch the last reminder came
+  remindedMs: number;
+}
+
+export interface BreakReminderPrompt {
+  reminderId: string;
+  watchedMs: number;
+  breakMinutes: number;
+  pauseVideo: boolean;
+}
+
+export interface BreakReminderStats {
+  shown: number;
+  accepted: number;
+  ignored: number;
+}
+
+export interface FocusSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Days of the week the window starts on, 0 = Sunday as in Date.getDay()
+  days: number[];
+  // Local 'HH:MM'; an end at or before the start runs past midnight
+  start: string;
+  end: string;
+  platform: Platform | 'all';
+  category: Category | 'all';
+  // 'block' stops matching videos outright, 'budget' allows budgetMinutes per window
+  mode: 'block' | 'budget';
+  budgetMinutes?: number;
+}
+
+export interface ScheduleComplianceRecord {
+  key: string;
+  date: string;
+  scheduleId: string;
+  // Watch time of matching videos while the window was active
+  watchMs: number;
+  overrides: number;
+}
+
+export interface ScheduleCompliance {
+  scheduleId: string;
+  name: string;
+  daysActive: number;
+  daysCompliant: number;
+  watchMs: number;
+  overrides: number;
+}
+
+export interface BudgetOverrideEvent {
+  eventId: string;
+  timestamp: number;
+  budgetId: string;
+  platform: Platform | 'all';
+  category: Category | 'all';
+  // 'snooze' lifts the block for a few minutes, 'override' for the rest of the day
+  action: 'snooze' | 'override';
+  url?: string;
 }
 
 export interface DailyAggregate {
@@ -27,8 +213,235 @@ export interface DailyAggregate {
   date: string;
   platform: Platform;
   category: Category;
+  // Playing time: every valid delta while the video played
+  watchMs: number;
+  // Attended time: the part of watchMs where the user was actually present
+  attendedMs: number;
+  // Content time: media time consumed, so 2x speed doubles it and seeks add nothing
+  contentMs: number;
+  count: number;
+  // Part of count that came from an imported watch history, with no watch time behind it
+  importedCount?: number;
+  // Only on a week read back from the rollups: the days folded in, with `date` the week's Monday
+  days?: number;
+}
+
+// Daily aggregates rolled up once they are older than the retention policy allows
+export interface RollupAggregate {
+  key: string;
+  // Week start (Monday, `YYYY-MM-DD`) or month (`YYYY-MM`)
+  period: string;
+  platform: Platform;
+  category: Category;
   watchMs: number;
+  attendedMs: number;
+  contentMs: number;
   count: number;
+  importedCount?: number;
+  // Daily aggregates folded in
+  days: number;
+}
+
+export interface RetentionSettings {
+  // 'days' keeps raw events for rawEventDays; 'none' stops storing them
+  rawEvents: 'days' | 'forever' | 'none';
+  rawEventDays: number;
+  // Daily aggregates older than this many months go into the weekly and monthly stores; 0 keeps them
+  rollupAfterMonths: number;
+}
+
+export interface RetentionRun {
+  timestamp: number;
+  eventsDeleted: number;
+  aggregatesRolledUp: number;
+}
+
+export interface StoreUsage {
+  name: string;
+  records: number;
+  // Size of the records as JSON, a rough stand-in for what IndexedDB stores
+  approxBytes: number;
+}
+
+export interface StorageUsage {
+  stores: StoreUsage[];
+  // From navigator.storage.estimate(), for everything the extension stores
+  usageBytes?: number;
+  quotaBytes?: number;
+  lastCleanup: RetentionRun | null;
+}
+
+export type BackupStoreName = StoreNames<TrackerDB>;
+
+// Every store's records, as written by StorageManager.createBackup(). They stay
+// unknown until a restore has read their keys
+export interface BackupFile {
+  format: string;
+  formatVersion: number;
+  // Database schema version the records were taken from
+  schemaVersion: number;
+  createdAt: number;
+  stores: Partial<Record<BackupStoreName, unknown[]>>;
+}
+
+// 'merge' keeps existing records and adds the ones not present yet; 'replace' empties the stores first
+export type RestoreMode = 'merge' | 'replace';
+
+export interface StoreRestorePreview {
+  name: string;
+  backupRecords: number;
+  // Records whose key isn't in the store yet
+  newRecords: number;
+  existingRecords: number;
+}
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  schemaVersion: number;
+  createdAt: number;
+  stores: StoreRestorePreview[];
+  warnings: string[];
+}
+
+export interface HourlyAggregate {
+  key: string;
+  date: string;
+  // Local clock hour (0-23) the time was watched in
+  hour: number;
+  platform: Platform;
+  category: Category;
+  watchMs: number;
+}
+
+export interface HourlyHeatmapQuery {
+  range: DateRange;
+  platform?: Platform;
+  category?: Category;
+}
+
+export interface HourlyHeatmap {
+  // cells[dayOfWeek][hour], dayOfWeek 0 = Sunday as in Date.getDay()
+  cells: number[][];
+  maxMs: number;
+}
+
+export interface AggregateDeltas {
+  watchMs?: number;
+  attendedMs?: number;
+  contentMs?: number;
+  count?: number;
+}
+
+export interface VideoRecord {
+  videoId: string;
+  platform: Platform;
+  category: Category;
+  title: string;
+  url: string;
+  channelId?: string;
+  channelName?: string;
+  firstSeen: number;
+  lastSeen: number;
+  totalWatchedMs: number;
+  maxPositionMs: number;
+  durationMs?: number;
+  // First known from an imported watch history; only tracking adds watch time
+  imported?: boolean;
+}
+
+// One watch from a Google Takeout watch history
+export interface TakeoutEntry {
+  videoId: string;
+  title: string;
+  url: string;
+  channelId?: string;
+  channelName?: string;
+  timestamp: number;
+}
+
+export interface TakeoutParseResult {
+  entries: TakeoutEntry[];
+  // Ads, removed videos and entries without a usable URL or time
+  skipped: number;
+}
+
+// Marks a Takeout entry as imported, so importing the same file again adds nothing
+export interface ImportedWatch {
+  key: string;
+  date: string;
+  videoId: string;
+  timestamp: number;
+}
+
+export interface TakeoutImportResult {
+  imported: number;
+  duplicates: number;
+  // Entries on or after the first day the extension tracked YouTube, which tracking already covers
+  skippedTracked: number;
+  trackedSince: string | null;
+}
+
+export interface VideoHistoryQuery {
+  search?: string;
+  platform?: Platform;
+  category?: Category;
+  page: number;
+  pageSize: number;
+}
+
+export interface VideoHistoryPage {
+  videos: VideoRecord[];
+  total: number;
+}
+
+export interface ChannelAggregate {
+  key: string;
+  date: string;
+  platform: Platform;
+  channelId: string;
+  channelName: string;
+  watchMs: number;
+  count: number;
+  importedCount?: number;
+}
+
+export interface ChannelSummary {
+  platform: Platform;
+  channelId: string;
+  channelName: string;
+  watchMs: number;
+  count: number;
+  // Fraction (0-1) of all watch time in the requested range
+  share: number;
+}
+
+export interface AdAggregate {
+  key: string;
+  date: string;
+  platform: Platform;
+  adMs: number;
+  adCount: number;
+}
+
+/**
+ * A stretch of watching across videos and tabs, closed once nothing has played
+ * for longer than the configured gap.
+ */
+export interface ViewingSession {
+  id: string;
+  start: number;
+  end: number;
+  // Sum of playing time; overlapping tabs both contribute
+  totalMs: number;
+  videoIds: string[];
+  categoryMs: Partial<Record<Category, number>>;
+}
+
+export interface ViewingSessionSummary {
+  sessions: ViewingSession[];
+  // Always the last 7 days, regardless of the requested range
+  longestThisWeekMs: number;
+  averageMs: number;
 }
 
 export interface TabStats {
@@ -36,6 +449,10 @@ export interface TabStats {
   shortsMs: number;
   regularCount: number;
   regularMs: number;
+  shortsAttendedMs: number;
+  regularAttendedMs: number;
+  shortsContentMs: number;
+  regularContentMs: number;
 }
 
 export interface DateRange {
@@ -43,6 +460,50 @@ export interface DateRange {
   end: string;
 }
 
+export type AggregateTotals = Pick<DailyAggregate, 'watchMs' | 'attendedMs' | 'contentMs' | 'count'>;
+
+export interface AggregateChange {
+  key: string;
+  date: string;
+  platform: Platform;
+  category: Category;
+  // null when the aggregate doesn't exist on that side
+  before: AggregateTotals | null;
+  after: AggregateTotals | null;
+}
+
+export interface RecomputeResult {
+  // The requested range, with the start moved up to the first day raw events fully cover
+  range: DateRange;
+  eventsReplayed: number;
+  changes: AggregateChange[];
+  applied: boolean;
+}
+
+// Keyed by PlatformModule.platformId; a missing entry means the platform is enabled
+export type EnabledPlatforms = Record<string, boolean>;
+
+export interface GenericCategoryRule {
+  urlRegex?: string;
+  maxDurationSeconds?: number;
+  category: Category;
+}
+
+export interface GenericSiteConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Chrome match pattern, also used for the runtime host permission request
+  urlPattern: string;
+  videoSelector: string;
+  // Tested against the page URL; the first capture group is the video ID
+  videoIdRegex: string;
+  titleSelector: string;
+  // First matching rule wins, otherwise defaultCategory applies
+  categoryRules: GenericCategoryRule[];
+  defaultCategory: Category;
+}
+
 export interface RuntimeMessage {
   type: string;
   payload?: any;
@@ -56,7 +517,12 @@ export interface GlobalSummary {
   platforms: Record<Platform, TabStats>;
   trends: Array<{
     date: string;
-    shorts: { count: number; watchMs: number };
-    regular: { count: number; watchMs: number };
+    shorts: { count: number; watchMs: number; attendedMs: number; contentMs: number };
+    regular: { count: number; watchMs: number; attendedMs: number; contentMs: number };
+  }>;
+  adTrends: Array<{
+    date: string;
+    adMs: number;
+    adCount: number;
   }>;
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { Category } from './types';
+
 export function formatTime(ms: number): string {
   const totalSeconds = Math.floor(ms / 1000);
   const hours = Math.floor(totalSeconds / 3600);
@@ -11,8 +13,49 @@ export function generateEventId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+let dayStartHour = 0;
+
+// Hours before this local hour are filed under the previous day (e.g. 4 for a 4 AM cutoff)
+export function setDayStartHour(hour: number): void {
+  dayStartHour = Math.min(23, Math.max(0, Math.floor(hour) || 0));
+}
+
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+// Buckets by the user's local calendar day, shifted by the configured day start hour
 export function getDateString(date: Date = new Date()): string {
-  return date.toISOString().split('T')[0];
+  const shifted = new Date(date.getTime());
+  shifted.setHours(shifted.getHours() - dayStartHour);
+  return formatLocalDate(shifted);
+}
+
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+// Moves a `YYYY-MM-DD` bucket by whole days
+export function shiftDateString(dateString: string, days: number): string {
+  const date = parseDateString(dateString);
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
+}
+
+// Parses a `YYYY-MM-DD` bucket as a local date (`new Date()` would read it as UTC midnight)
+export function parseDateString(dateString: string): Date {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Timestamp at which the `YYYY-MM-DD` bucket begins, honouring the day start hour
+export function getDayStartTime(dateString: string): number {
+  const date = parseDateString(dateString);
+  date.setHours(dayStartHour);
+  return date.getTime();
 }
 
 export function getYesterday(): string {
@@ -27,6 +70,20 @@ export function getDaysAgo(days: number): string {
   return getDateString(date);
 }
 
+// First day of the month `months` before the current day's month
+export function getMonthsAgo(months: number): string {
+  const date = parseDateString(getDateString());
+  date.setDate(1);
+  date.setMonth(date.getMonth() - months);
+  return formatLocalDate(date);
+}
+
+// Monday of the week a `YYYY-MM-DD` bucket falls in
+export function getWeekStart(dateString: string): string {
+  const weekday = parseDateString(dateString).getDay();
+  return shiftDateString(dateString, -((weekday + 6) % 7));
+}
+
 export function extractVideoId(url: string): string | null {
   const patterns = [
     /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/shorts\/)([^&\n?#]+)/,
@@ -41,6 +98,94 @@ export function extractVideoId(url: string): string | null {
   return null;
 }
 
+// `/shorts/<id>` as the same video in the regular player, or null for any other URL
+export function getShortsWatchUrl(url: string): string | null {
+  const match = url.match(/^(https?:\/\/[^/]*youtube\.com)\/shorts\/([^&\n?#/]+)/);
+  return match ? `${match[1]}/watch?v=${match[2]}` : null;
+}
+
+export function extractTikTokVideoId(url: string): string | null {
+  const match = url.match(/tiktok\.com\/@[^/]+\/video\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+export function extractInstagramVideoId(url: string): string | null {
+  const match = url.match(/instagram\.com\/(?:[^/?#]+\/)?(?:reels?|p|tv)\/([A-Za-z0-9_-]+)/);
+  return match ? match[1] : null;
+}
+
+// Converts a Chrome match pattern such as `https://*.example.com/videos/*` into a RegExp
+export function matchPatternToRegExp(pattern: string): RegExp | null {
+  if (pattern === '<all_urls>') return /^(?:https?|file|ftp):\/\//;
+
+  const match = pattern.match(/^(\*|https?|file|ftp):\/\/(\*|\*\.[^/*]+|[^/*]+)?(\/.*)$/);
+  if (!match) return null;
+
+  const [, scheme, host = '', path] = match;
+  const escape = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+  const schemeRegex = scheme === '*' ? 'https?' : escape(scheme);
+  let hostRegex: string;
+  if (host === '*') {
+    hostRegex = '[^/]+';
+  } else if (host.startsWith('*.')) {
+    hostRegex = `(?:[^/]+\\.)?${escape(host.slice(2))}`;
+  } else {
+    hostRegex = escape(host);
+  }
+  const pathRegex = path.split('*').map(escape).join('.*');
+
+  return new RegExp(`^${schemeRegex}:\\/\\/${hostRegex}${pathRegex}$`);
+}
+
+export function isShortFormCategory(category: Category): boolean {
+  return category === 'shorts' || category === 'reel' || category === 'tiktok';
+}
+
+export function getVisibleRatio(element: Element): number {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return 0;
+
+  const visibleWidth = Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0);
+  const visibleHeight = Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0);
+  if (visibleWidth <= 0 || visibleHeight <= 0) return 0;
+
+  return (visibleWidth * visibleHeight) / (rect.width * rect.height);
+}
+
+export function isVideoPlaying(video: HTMLVideoElement): boolean {
+  return !video.paused && !video.ended && video.readyState > 2;
+}
+
+// Picks the video the user is most likely watching when several are mounted:
+// playing beats paused, unmuted beats muted, then the most visible one wins.
+export function findActiveVideo(
+  root: ParentNode,
+  selector: string = 'video',
+  accept: (video: HTMLVideoElement) => boolean = () => true
+): HTMLVideoElement | null {
+  // The selector may point at player wrappers, so resolve each match to its <video>
+  const videos = Array.from(root.querySelectorAll(selector))
+    .map(element => element instanceof HTMLVideoElement ? element : element.querySelector('video'))
+    .filter((video): video is HTMLVideoElement => video !== null && accept(video));
+
+  let best: HTMLVideoElement | null = null;
+  let bestScore = -1;
+
+  for (const video of videos) {
+    const ratio = getVisibleRatio(video);
+    if (ratio === 0) continue;
+
+    const score = (isVideoPlaying(video) ? 4 : 0) + (video.muted ? 0 : 2) + ratio;
+    if (score > bestScore) {
+      best = video;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
 export function isValidTimeDelta(delta: number): boolean {
   return delta > 0 && delta <= 60000; // Between 0 and 60 seconds
 }